@@ -0,0 +1,115 @@
+import express from 'express';
+
+const USAGE = `Usage: npm run classifier-stub -- [options]
+
+A stand-in for the toxicity classifier service, for trying TOXICITY_CLASSIFIER_URL locally.
+It scores a handful of words and can be made slow or unreliable.
+
+Options:
+  --port <port>          Port to listen on (default: 8090)
+  --delay <ms>           Wait this long before answering (default: 0)
+  --fail-rate <0-1>      Share of requests answered with --status instead of scores (default: 0)
+  --status <code>        Status code for failed requests (default: 503)`;
+
+interface StubOptions {
+  port: number;
+  delay_ms: number;
+  fail_rate: number;
+  status: number;
+}
+
+// Words the stub "model" knows, by the category it reports them under
+const STUB_VOCABULARY: Record<string, string[]> = {
+  general_toxicity: ['idiot', 'stupid', 'moron', 'loser', 'pathetic', 'worthless'],
+  hate_speech: ['subhuman', 'vermin', 'inferior'],
+  violence: ['kill', 'hurt', 'attack', 'shoot', 'destroy'],
+  sexual_content: ['nude', 'nsfw', 'explicit']
+};
+
+function parse_args(args: string[]): StubOptions {
+  const options: StubOptions = { port: 8090, delay_ms: 0, fail_rate: 0, status: 503 };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): number => {
+      const parsed = Number(args[++i]);
+      if (!Number.isFinite(parsed)) throw new Error(`${arg} needs a number`);
+      return parsed;
+    };
+
+    switch (arg) {
+      case '--port':
+        options.port = value();
+        break;
+      case '--delay':
+        options.delay_ms = value();
+        break;
+      case '--fail-rate':
+        options.fail_rate = value();
+        break;
+      case '--status':
+        options.status = value();
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+// Each known word adds to its category's score; spans point at the words
+function score(content: string): { categories: Record<string, number>; spans: Array<{ start: number; end: number; label: string }> } {
+  const categories: Record<string, number> = {};
+  const spans: Array<{ start: number; end: number; label: string }> = [];
+
+  for (const [label, words] of Object.entries(STUB_VOCABULARY)) {
+    let hits = 0;
+    for (const word of words) {
+      for (const match of content.matchAll(new RegExp(`\\b${word}\\b`, 'gi'))) {
+        hits++;
+        spans.push({ start: match.index as number, end: (match.index as number) + match[0].length, label });
+      }
+    }
+    categories[label] = hits === 0 ? 0.02 : Math.min(0.99, Math.round((0.65 + 0.1 * hits) * 100) / 100);
+  }
+
+  return { categories, spans };
+}
+
+function main(): void {
+  const options = parse_args(process.argv.slice(2));
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  app.post('*', (req, res) => {
+    setTimeout(() => {
+      if (Math.random() < options.fail_rate) {
+        res.status(options.status).json({ error: 'Injected failure' });
+        return;
+      }
+      if (typeof req.body?.content !== 'string') {
+        res.status(400).json({ error: 'content must be a string' });
+        return;
+      }
+      res.json(score(req.body.content));
+    }, options.delay_ms);
+  });
+
+  app.listen(options.port, () => {
+    console.log(`Classifier stub listening on http://localhost:${options.port}/score`);
+  });
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error('Run with --help for usage');
+  process.exit(1);
+}
@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { ApiKeyInput, ApiKeyScope } from '../types/content_moderation';
+import { ApiKeyStore } from '../services/api_key_store';
+
+const USAGE = `Usage: npm run create-key -- --name <name> [options]
+
+Creates an API key in DATA_DIR without going through the API, for example the first admin key.
+The raw key is printed once; only its hash is stored.
+
+Options:
+  --name <name>          Name shown in the key list and recorded as the author of changes
+  --scopes <scopes>      Comma-separated scopes (default: ${ApiKeyScope.ADMIN})
+                         One of: ${Object.values(ApiKeyScope).join(', ')}`;
+
+function parse_args(args: string[]): ApiKeyInput {
+  const input: Partial<ApiKeyInput> = { scopes: [ApiKeyScope.ADMIN] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): string => {
+      if (i + 1 >= args.length) throw new Error(`${arg} needs a value`);
+      return args[++i];
+    };
+
+    switch (arg) {
+      case '--name':
+        input.name = value();
+        break;
+      case '--scopes':
+        input.scopes = value().split(',').map(scope => scope.trim()) as ApiKeyScope[];
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return input as ApiKeyInput;
+}
+
+function main(): void {
+  dotenv.config();
+  const input = parse_args(process.argv.slice(2));
+  const data_dir = process.env.DATA_DIR || path.join(__dirname, '../../data');
+  const api_key_store = new ApiKeyStore(path.join(data_dir, 'api_keys.json'));
+
+  const errors = api_key_store.validate_key(input);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const { api_key, key } = api_key_store.create_key(input);
+  console.log(`Created ${api_key.name} (${api_key.id}) with scopes: ${api_key.scopes.join(', ')}`);
+  console.log(`Key: ${key}`);
+  console.log('Store it now; it is not shown again.');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error('Run with --help for usage');
+  process.exit(1);
+}
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import {
+  ContentType,
+  EvaluationComparison,
+  EvaluationMistake,
+  EvaluationReport,
+  LabelMetrics,
+  ModerationConfig,
+  PlatformType
+} from '../types/content_moderation';
+import { ModerationEngine } from '../services/moderation_engine';
+import { Evaluator } from '../services/evaluator';
+import { detector_registry, load_detector_modules, parse_module_list } from '../services/detector_registry';
+import { use_toxicity_classifier } from '../services/builtin_detectors';
+import { ToxicityClassifier, toxicity_classifier_config } from '../services/toxicity_classifier';
+import { DEFAULT_MODERATION_CONFIG } from '../constants/default_config';
+import { validate_moderation_config } from '../utils/config_validation';
+import { read_dataset } from '../utils/dataset';
+import { clone } from '../utils/json_file';
+
+const USAGE = `Usage: npm run evaluate -- <dataset.jsonl|dataset.csv> [options]
+
+Options:
+  --config <file>        Moderation config JSON, merged over the defaults (default: the defaults)
+  --compare <file>       Second config to compare against --config side by side
+  --platform <platform>  Platform for samples that don't name one (default: ${PlatformType.FACEBOOK})
+  --content-type <type>  Content type for samples that don't name one (default: ${ContentType.TEXT})
+  --top <n>              Worst false positives and negatives to list (default: 10)
+  --json                 Print the report as JSON`;
+
+const METRICS_WIDTHS = [28, 8, 6, 6, 6, 6, 10, 8, 6];
+const COMPARISON_WIDTHS = [28, 8, 18, 18, 18, 10];
+
+interface EvaluateOptions {
+  dataset: string;
+  config?: string;
+  compare?: string;
+  platform: PlatformType;
+  content_type: ContentType;
+  top: number;
+  json: boolean;
+}
+
+function parse_args(args: string[]): EvaluateOptions {
+  const options: Partial<EvaluateOptions> = {
+    platform: PlatformType.FACEBOOK,
+    content_type: ContentType.TEXT,
+    top: 10,
+    json: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): string => {
+      if (i + 1 >= args.length) throw new Error(`${arg} needs a value`);
+      return args[++i];
+    };
+
+    switch (arg) {
+      case '--config':
+        options.config = value();
+        break;
+      case '--compare':
+        options.compare = value();
+        break;
+      case '--platform':
+        options.platform = value() as PlatformType;
+        break;
+      case '--content-type':
+        options.content_type = value() as ContentType;
+        break;
+      case '--top':
+        options.top = parseInt(value(), 10);
+        if (!Number.isInteger(options.top) || options.top < 0) throw new Error('--top must be a non-negative integer');
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        if (arg.startsWith('--') || options.dataset) throw new Error(`Unexpected argument: ${arg}`);
+        options.dataset = arg;
+    }
+  }
+
+  if (!options.dataset) throw new Error('A dataset file is required');
+  return options as EvaluateOptions;
+}
+
+// Config files may hold a full config or only the keys that differ from the defaults
+function load_config(file_path?: string): ModerationConfig {
+  if (!file_path) return clone(DEFAULT_MODERATION_CONFIG);
+
+  const overrides = JSON.parse(fs.readFileSync(file_path, 'utf8'));
+  const errors = validate_moderation_config(overrides, true);
+  if (errors.length > 0) {
+    throw new Error(`${file_path}: ${errors.join('; ')}`);
+  }
+  return clone({ ...DEFAULT_MODERATION_CONFIG, ...overrides });
+}
+
+function format_metrics_table(rows: LabelMetrics[]): string[] {
+  const lines = [pad_row(['label', 'support', 'tp', 'fp', 'fn', 'tn', 'precision', 'recall', 'f1'], METRICS_WIDTHS)];
+  for (const row of rows) {
+    lines.push(pad_row([
+      row.label,
+      row.support,
+      row.true_positives,
+      row.false_positives,
+      row.false_negatives,
+      row.true_negatives,
+      row.precision.toFixed(3),
+      row.recall.toFixed(3),
+      row.f1.toFixed(3)
+    ], METRICS_WIDTHS));
+  }
+  return lines;
+}
+
+function format_mistakes(title: string, mistakes: EvaluationMistake[]): string[] {
+  if (mistakes.length === 0) return [];
+
+  const lines = ['', title];
+  for (const mistake of mistakes) {
+    const content = mistake.content.replace(/\s+/g, ' ');
+    lines.push(`  ${mistake.sample_id} [${mistake.wrong_labels.join(', ')}] confidence ${mistake.confidence.toFixed(2)}`);
+    lines.push(`    ${content.length > 100 ? `${content.slice(0, 97)}...` : content}`);
+  }
+  return lines;
+}
+
+function format_report(report: EvaluationReport): string {
+  const lines = [`Evaluated ${report.evaluated} of ${report.total} samples in ${report.processing_time_ms} ms`];
+  for (const failure of report.failed) {
+    lines.push(`  failed ${failure.sample_id}: ${failure.details}`);
+  }
+
+  lines.push('', 'Flag types', ...format_metrics_table([report.flagged, ...report.flag_types]));
+  if (report.categories.length > 0) {
+    lines.push('', 'Categories', ...format_metrics_table(report.categories));
+  }
+
+  lines.push(...format_mistakes('Worst false positives', report.worst_false_positives));
+  lines.push(...format_mistakes('Worst false negatives', report.worst_false_negatives));
+  return lines.join('\n');
+}
+
+function format_comparison(comparison: EvaluationComparison): string {
+  const { baseline, candidate } = comparison;
+  const before = [baseline.flagged, ...baseline.flag_types, ...baseline.categories];
+
+  const lines = [
+    `Evaluated ${candidate.evaluated} of ${candidate.total} samples`,
+    '',
+    pad_row(['label', 'support', 'precision', 'recall', 'f1', 'f1 change'], COMPARISON_WIDTHS)
+  ];
+  [candidate.flagged, ...candidate.flag_types, ...candidate.categories].forEach((after, index) => {
+    const delta = comparison.deltas[index];
+    lines.push(pad_row([
+      after.label,
+      after.support,
+      `${before[index].precision.toFixed(3)} -> ${after.precision.toFixed(3)}`,
+      `${before[index].recall.toFixed(3)} -> ${after.recall.toFixed(3)}`,
+      `${before[index].f1.toFixed(3)} -> ${after.f1.toFixed(3)}`,
+      `${delta.f1 > 0 ? '+' : ''}${delta.f1.toFixed(3)}`
+    ], COMPARISON_WIDTHS));
+  });
+
+  lines.push('', `Fixed (${comparison.fixed.length}): ${comparison.fixed.join(', ') || '-'}`);
+  lines.push(`Regressed (${comparison.regressed.length}): ${comparison.regressed.join(', ') || '-'}`);
+  lines.push(...format_mistakes('Worst false positives (compared config)', candidate.worst_false_positives));
+  lines.push(...format_mistakes('Worst false negatives (compared config)', candidate.worst_false_negatives));
+  return lines.join('\n');
+}
+
+function pad_row(cells: Array<string | number>, widths: number[]): string {
+  return cells.map((cell, index) => String(cell).padEnd(widths[index])).join(' ').trimEnd();
+}
+
+async function main(): Promise<void> {
+  const options = parse_args(process.argv.slice(2));
+  // Same in-house detectors as the server, so they are scored too
+  load_detector_modules(detector_registry, parse_module_list(process.env.DETECTOR_MODULES));
+  // And the same toxicity model, so it can be measured against the lexicon
+  const classifier_config = toxicity_classifier_config(process.env);
+  if (classifier_config) use_toxicity_classifier(new ToxicityClassifier(classifier_config));
+  const samples = read_dataset(options.dataset, { platform: options.platform, content_type: options.content_type });
+  const evaluator = new Evaluator(samples, options.top);
+  const baseline = new ModerationEngine(load_config(options.config));
+
+  if (options.compare) {
+    const comparison = await evaluator.compare(baseline, new ModerationEngine(load_config(options.compare)));
+    console.log(options.json ? JSON.stringify(comparison, null, 2) : format_comparison(comparison));
+    return;
+  }
+
+  const report = await evaluator.evaluate(baseline);
+  console.log(options.json ? JSON.stringify(report, null, 2) : format_report(report));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error('Run with --help for usage');
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import { ModerationConfig, SeverityLevel } from '../types/content_moderation';
+import { DEFAULT_DECISION_POLICY } from '../services/policy_engine';
+
+// Spam and sentiment have always used stricter cutoffs than the global default.
+// They also apply when a configuration's detector_thresholds leaves these detectors out.
+export const DEFAULT_DETECTOR_THRESHOLDS: Record<string, number> = {
+  spam: 0.6,
+  sentiment: 0.3
+};
+
+// Seeds the config store on first run; the evaluation CLI uses it as its baseline
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+  rules: [],
+  review_queue: {
+    enabled: true,
+    min_severity: SeverityLevel.MEDIUM,
+    max_severity: SeverityLevel.MEDIUM
+  },
+  sensitivity_threshold: 0.5,
+  detector_thresholds: { ...DEFAULT_DETECTOR_THRESHOLDS },
+  platform_thresholds: {},
+  decision_policy: DEFAULT_DECISION_POLICY,
+  platform_profiles: {}, // Only added or edited profiles; the built-in ones are always available
+  enable_sentiment_analysis: true,
+  enable_profanity_detection: true,
+  enable_toxicity_detection: true,
+  enable_spam_detection: true,
+  enable_hate_speech_detection: true,
+  enable_violence_detection: true,
+  enable_sexual_content_detection: true,
+  enable_personal_info_detection: true,
+  enable_secret_detection: true
+};
+
+// Configs saved before a setting existed get its default, so a newer detector isn't silently off
+export function with_config_defaults(config: ModerationConfig): ModerationConfig {
+  return { ...DEFAULT_MODERATION_CONFIG, ...config };
+}
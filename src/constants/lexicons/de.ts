@@ -0,0 +1,93 @@
+import { LanguageLexicon } from '../../types/content_moderation';
+
+// German
+export const DE_LEXICON: LanguageLexicon = {
+  toxic_phrases: {
+    'bring dich um': 0.9,
+    'ich hoffe du stirbst': 0.9,
+    'fick dich': 0.8,
+    'hurensohn': 0.8,
+    'du bist wertlos': 0.8,
+    'du bist ein idiot': 0.7,
+    'du bist nutzlos': 0.7,
+    'arschloch': 0.7,
+    'verpiss dich': 0.7,
+    'du bist dumm': 0.6,
+    'halt die klappe': 0.5,
+    'interessiert keinen': 0.5
+  },
+
+  // Matched against normalized text, so umlauts are written without dots
+  hate_speech_patterns: [
+    'alle [a-z]+ sind',
+    'jeder [a-z]+ ist',
+    'typisch [a-z]+',
+    'ihr leute',
+    'diese leute',
+    'geh zuruck',
+    'du gehorst nicht hierher',
+    'du bist nicht willkommen'
+  ],
+
+  violence_patterns: [
+    'ich bringe dich um',
+    'ich werde dich töten',
+    'ich will dich töten',
+    'ich schlage dich',
+    'ich verprügel dich',
+    'ich steche dich ab',
+    'ich erschieße dich',
+    'ich zünde dich an',
+    'ich mache dich fertig'
+  ],
+
+  sexual_content_patterns: [
+    'nackt',
+    'porno',
+    'sex',
+    'sexuell',
+    'erotisch',
+    'inhalte für erwachsene',
+    'explizite inhalte'
+  ],
+
+  spam_phrases: {
+    'jetzt kaufen': 0.7,
+    'nur für kurze zeit': 0.8,
+    'hier klicken': 0.6,
+    'nicht verpassen': 0.6,
+    'schnelles geld': 0.9,
+    'geld verdienen von zuhause': 0.8,
+    'arbeiten von zuhause': 0.7,
+    'schnell reich werden': 0.9,
+    'schnell abnehmen': 0.8,
+    'wundermittel': 0.9,
+    '100% garantiert': 0.8,
+    'ohne risiko': 0.7,
+    'exklusives angebot': 0.6,
+    'investitionsmöglichkeit': 0.6
+  },
+
+  sentiment_labels: {
+    'ausgezeichnet': 3,
+    'großartig': 3,
+    'toll': 3,
+    'super': 3,
+    'wunderbar': 4,
+    'glücklich': 3,
+    'liebe': 3,
+    'danke': 2,
+    'gut': 2,
+    'besser': 2,
+    'schlecht': -2,
+    'traurig': -2,
+    'enttäuschend': -2,
+    'schrecklich': -3,
+    'furchtbar': -3,
+    'schlimmste': -3,
+    'hasse': -3,
+    'ekelhaft': -3,
+    'müll': -3,
+    'betrug': -3
+  }
+};
@@ -0,0 +1,101 @@
+import { LanguageLexicon } from '../../types/content_moderation';
+
+// Spanish
+export const ES_LEXICON: LanguageLexicon = {
+  toxic_phrases: {
+    'mátate': 0.9,
+    'ojalá te mueras': 0.9,
+    'deberías morirte': 0.9,
+    'vete a la mierda': 0.8,
+    'hijo de puta': 0.8,
+    'no vales nada': 0.8,
+    'eres un idiota': 0.7,
+    'eres inútil': 0.7,
+    'imbécil': 0.7,
+    'eres estúpido': 0.6,
+    'pendejo': 0.6,
+    'nadie te quiere': 0.6,
+    'cállate': 0.5,
+    'a nadie le importa': 0.5
+  },
+
+  // Matched against normalized text, so no accents
+  hate_speech_patterns: [
+    'todos los [a-z]+ son',
+    'todas las [a-z]+ son',
+    'tipico de los [a-z]+',
+    'esa gente',
+    'vuelve a tu pais',
+    'no perteneces aqui',
+    'no eres bienvenido'
+  ],
+
+  violence_patterns: [
+    'te voy a matar',
+    'voy a matarte',
+    'quiero matarte',
+    'te voy a pegar',
+    'te voy a golpear',
+    'te voy a apuñalar',
+    'te voy a disparar',
+    'te voy a quemar',
+    'te voy a destruir'
+  ],
+
+  sexual_content_patterns: [
+    'desnudo',
+    'desnuda',
+    'porno',
+    'sexo',
+    'sexual',
+    'contenido para adultos',
+    'contenido explícito'
+  ],
+
+  spam_phrases: {
+    'compra ahora': 0.7,
+    'oferta por tiempo limitado': 0.8,
+    'haz clic aquí': 0.6,
+    'no te lo pierdas': 0.6,
+    'dinero fácil': 0.9,
+    'gana dinero rápido': 0.9,
+    'trabaja desde casa': 0.7,
+    'gana dinero desde casa': 0.8,
+    'hazte rico rápido': 0.9,
+    'pierde peso rápido': 0.8,
+    'cura milagrosa': 0.9,
+    '100% garantizado': 0.8,
+    'sin riesgo': 0.7,
+    'oferta exclusiva': 0.6,
+    'oportunidad de inversión': 0.6
+  },
+
+  // Sentiment tokens keep their accents, so common unaccented spellings are listed too
+  sentiment_labels: {
+    'excelente': 3,
+    'increíble': 3,
+    'increible': 3,
+    'genial': 3,
+    'fantástico': 3,
+    'maravilloso': 4,
+    'feliz': 3,
+    'encanta': 3,
+    'gracias': 2,
+    'bueno': 2,
+    'buena': 2,
+    'mejor': 2,
+    'malo': -2,
+    'mala': -2,
+    'triste': -2,
+    'decepcionante': -2,
+    'terrible': -3,
+    'horrible': -3,
+    'pésimo': -3,
+    'pesimo': -3,
+    'peor': -3,
+    'odio': -3,
+    'asco': -3,
+    'basura': -3,
+    'estafa': -3
+  }
+};
@@ -0,0 +1,15 @@
+import { LanguageLexicon } from '../../types/content_moderation';
+import { DE_LEXICON } from './de';
+import { ES_LEXICON } from './es';
+import { JA_LEXICON } from './ja';
+import { PT_LEXICON } from './pt';
+
+// English lives in the detectors themselves; these packs are checked in addition to it
+export const LEXICON_PACKS: Record<string, LanguageLexicon> = {
+  es: ES_LEXICON,
+  pt: PT_LEXICON,
+  de: DE_LEXICON,
+  ja: JA_LEXICON
+};
+
+export const SUPPORTED_LANGUAGES = ['en', ...Object.keys(LEXICON_PACKS)];
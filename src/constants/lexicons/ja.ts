@@ -0,0 +1,83 @@
+import { LanguageLexicon } from '../../types/content_moderation';
+
+// Japanese; phrases are matched as substrings since Japanese isn't written with spaces
+export const JA_LEXICON: LanguageLexicon = {
+  toxic_phrases: {
+    '死ね': 0.9,
+    '自殺しろ': 0.9,
+    '消えろ': 0.7,
+    'クズ': 0.7,
+    '役立たず': 0.7,
+    'バカ': 0.6,
+    '馬鹿': 0.6,
+    'アホ': 0.6,
+    'きもい': 0.6,
+    'キモい': 0.6,
+    'うざい': 0.5,
+    '黙れ': 0.5
+  },
+
+  hate_speech_patterns: [
+    '[一-龯ァ-ヶ]{1,6}人は(?:全員|みんな)',
+    '国に帰れ',
+    '出て行け',
+    'お前らみたいな'
+  ],
+
+  violence_patterns: [
+    '殺してやる',
+    'ぶっ殺す',
+    '殺すぞ',
+    '殴ってやる',
+    '刺してやる',
+    '撃ってやる',
+    '燃やしてやる',
+    'ぶっ潰す'
+  ],
+
+  sexual_content_patterns: [
+    'ヌード',
+    '裸',
+    'エロ',
+    'ポルノ',
+    'セックス',
+    'アダルト'
+  ],
+
+  spam_phrases: {
+    '今すぐ購入': 0.7,
+    '期間限定': 0.6,
+    'こちらをクリック': 0.6,
+    '見逃すな': 0.6,
+    '簡単に稼げる': 0.9,
+    '誰でも稼げる': 0.9,
+    '在宅で稼ぐ': 0.8,
+    '一攫千金': 0.9,
+    '絶対痩せる': 0.8,
+    '100%保証': 0.8,
+    'リスクなし': 0.7,
+    '限定オファー': 0.6
+  },
+
+  // Found as substrings and spaced out before sentiment scoring
+  sentiment_labels: {
+    '最高': 3,
+    '素晴らしい': 3,
+    '嬉しい': 3,
+    '楽しい': 2,
+    '好き': 2,
+    'ありがとう': 2,
+    '良い': 2,
+    'いい': 2,
+    '最悪': -3,
+    '嫌い': -3,
+    'ひどい': -3,
+    '酷い': -3,
+    '詐欺': -3,
+    'ゴミ': -3,
+    '悪い': -2,
+    '悲しい': -2,
+    '残念': -2,
+    'つまらない': -2
+  }
+};
@@ -0,0 +1,102 @@
+import { LanguageLexicon } from '../../types/content_moderation';
+
+// Portuguese
+export const PT_LEXICON: LanguageLexicon = {
+  toxic_phrases: {
+    'se mata': 0.9,
+    'espero que você morra': 0.9,
+    'vai se foder': 0.8,
+    'filho da puta': 0.8,
+    'você não vale nada': 0.8,
+    'você é um idiota': 0.7,
+    'você é inútil': 0.7,
+    'imbecil': 0.7,
+    'você é burro': 0.6,
+    'otário': 0.6,
+    'cala a boca': 0.5,
+    'ninguém se importa': 0.5
+  },
+
+  // Matched against normalized text, so no accents
+  hate_speech_patterns: [
+    'todos os [a-z]+ sao',
+    'todas as [a-z]+ sao',
+    'tipico de [a-z]+',
+    'essa gente',
+    'volta pro seu pais',
+    'volte para o seu pais',
+    'voce nao pertence',
+    'voce nao e bem-vindo'
+  ],
+
+  violence_patterns: [
+    'vou te matar',
+    'vou matar você',
+    'quero te matar',
+    'vou te bater',
+    'vou te socar',
+    'vou te esfaquear',
+    'vou te dar um tiro',
+    'vou te queimar',
+    'vou te destruir'
+  ],
+
+  sexual_content_patterns: [
+    'nudes',
+    'pelado',
+    'pelada',
+    'pornô',
+    'porno',
+    'sexo',
+    'sexual',
+    'conteúdo adulto',
+    'conteúdo explícito'
+  ],
+
+  spam_phrases: {
+    'compre agora': 0.7,
+    'oferta por tempo limitado': 0.8,
+    'clique aqui': 0.6,
+    'não perca': 0.6,
+    'dinheiro fácil': 0.9,
+    'ganhe dinheiro rápido': 0.9,
+    'trabalhe em casa': 0.7,
+    'ganhe dinheiro em casa': 0.8,
+    'fique rico rápido': 0.9,
+    'perca peso rápido': 0.8,
+    'cura milagrosa': 0.9,
+    '100% garantido': 0.8,
+    'sem risco': 0.7,
+    'oferta exclusiva': 0.6,
+    'oportunidade de investimento': 0.6
+  },
+
+  // Sentiment tokens keep their accents, so common unaccented spellings are listed too
+  sentiment_labels: {
+    'excelente': 3,
+    'incrível': 3,
+    'incrivel': 3,
+    'ótimo': 3,
+    'otimo': 3,
+    'maravilhoso': 4,
+    'feliz': 3,
+    'adoro': 3,
+    'obrigado': 2,
+    'obrigada': 2,
+    'bom': 2,
+    'boa': 2,
+    'melhor': 2,
+    'ruim': -2,
+    'triste': -2,
+    'decepcionante': -2,
+    'péssimo': -3,
+    'pessimo': -3,
+    'horrível': -3,
+    'horrivel': -3,
+    'pior': -3,
+    'odeio': -3,
+    'nojo': -3,
+    'lixo': -3,
+    'golpe': -3
+  }
+};
@@ -5,6 +5,8 @@ export const NOTIFICATION_MESSAGES = {
   INVALID_REQUEST: 'Invalid request format',
   SERVER_ERROR: 'Internal server error occurred',
   RATE_LIMIT_EXCEEDED: 'Rate limit exceeded, please try again later',
+  UNAUTHORIZED: 'A valid API key is required',
+  FORBIDDEN: 'API key does not have the required scope',
   
   // Moderation Specific Messages
   PROFANITY_DETECTED: 'Profanity detected in content',
@@ -13,32 +15,95 @@ export const NOTIFICATION_MESSAGES = {
   VIOLENCE_DETECTED: 'Violent content detected',
   SEXUAL_CONTENT_DETECTED: 'Sexual content detected',
   PERSONAL_INFO_DETECTED: 'Personal information detected',
+  SECRET_DETECTED: 'Credential or secret detected',
+  UNSUPPORTED_LANGUAGE: 'Content language is not supported by automated moderation',
   SPAM_DETECTED: 'Spam-like content detected',
   NEGATIVE_SENTIMENT: 'Content has negative sentiment',
+  IMAGE_BLOCKLISTED: 'Image matches a blocklisted image',
+  IMAGE_UNVERIFIED: 'Image format cannot be checked against the image blocklist',
   
   // Recommendations
   RECOMMEND_REVIEW: 'Please review content before posting',
   RECOMMEND_EDIT: 'Consider editing content to remove flagged elements',
   RECOMMEND_REPLACE: 'Consider replacing flagged content',
   RECOMMEND_DELAY: 'Consider delaying post due to content concerns',
+  RECOMMEND_ROTATE_SECRET: 'Remove the credential before posting and rotate it, as it may already be exposed',
   
   // Platform Specific
   PLATFORM_VIOLATION: 'Content may violate platform guidelines',
   CHARACTER_LIMIT: 'Content exceeds character limit',
   HASHTAG_LIMIT: 'Too many hashtags detected',
   MENTION_LIMIT: 'Too many mentions detected',
+  LINK_LIMIT: 'Too many links detected',
+  BANNED_LINK: 'Link type not allowed on this platform',
+  FIELD_REQUIRED: 'Required field is missing',
+  IMAGE_FORMAT: 'Image format not accepted on this platform',
+  IMAGE_FILE_SIZE: 'Image file exceeds the size limit',
+  IMAGE_DIMENSIONS: 'Image dimensions are outside the allowed range',
+  IMAGE_ASPECT_RATIO: 'Image aspect ratio is outside the allowed range',
   
   // Success Messages
   MODERATION_COMPLETE: 'Content moderation completed successfully',
+  BATCH_MODERATION_COMPLETE: 'Batch moderation completed',
+  BACKTEST_COMPLETE: 'Backtest completed',
+  REMEDIATION_COMPLETE: 'Remediation suggestion generated',
+  RULE_CREATED: 'Moderation rule created successfully',
   RULE_UPDATED: 'Moderation rule updated successfully',
+  RULE_DELETED: 'Moderation rule deleted successfully',
+  POLICY_UPDATED: 'Decision policy updated successfully',
+  POLICY_CLAUSE_CREATED: 'Policy clause created successfully',
+  POLICY_CLAUSE_UPDATED: 'Policy clause updated successfully',
+  POLICY_CLAUSE_DELETED: 'Policy clause deleted successfully',
+  PLATFORM_PROFILE_SAVED: 'Platform profile saved successfully',
+  PLATFORM_PROFILE_DELETED: 'Platform profile deleted successfully',
   CONFIG_UPDATED: 'Configuration updated successfully',
+  CONFIG_ROLLED_BACK: 'Configuration rolled back successfully',
+  TENANT_CREATED: 'Tenant created successfully',
+  TENANT_UPDATED: 'Tenant updated successfully',
+  TENANT_DELETED: 'Tenant deleted successfully',
+  API_KEY_CREATED: 'API key created successfully',
+  API_KEY_UPDATED: 'API key updated successfully',
+  API_KEY_REVOKED: 'API key revoked successfully',
+  REVIEW_UPDATED: 'Review item updated successfully',
+  IMAGE_BLOCKLIST_ENTRY_ADDED: 'Image added to the blocklist',
+  IMAGE_BLOCKLIST_ENTRY_REMOVED: 'Image removed from the blocklist',
   
   // Error Messages
   MODERATION_FAILED: 'Content moderation failed',
   RULE_NOT_FOUND: 'Moderation rule not found',
+  RULE_INVALID: 'Invalid moderation rule provided',
+  RULE_ALREADY_EXISTS: 'A moderation rule with this id already exists',
+  POLICY_INVALID: 'Invalid decision policy provided',
+  POLICY_CLAUSE_NOT_FOUND: 'Policy clause not found',
+  POLICY_CLAUSE_ALREADY_EXISTS: 'A policy clause with this id already exists',
+  PLATFORM_NOT_FOUND: 'Platform profile not found',
+  PLATFORM_PROFILE_INVALID: 'Invalid platform profile provided',
+  PLATFORM_PROFILE_BUILT_IN: 'Built-in platform profiles can be edited but not deleted',
+  PLATFORM_IN_USE: 'Platform is still referenced; update or remove these first',
   CONFIG_INVALID: 'Invalid configuration provided',
+  INVALID_THRESHOLD: 'Threshold must be a number between 0 and 1',
+  CONFIG_VERSION_NOT_FOUND: 'Configuration version not found',
+  TENANT_NOT_FOUND: 'Tenant not found',
+  TENANT_INVALID: 'Invalid tenant provided',
+  TENANT_ALREADY_EXISTS: 'A tenant with this id already exists',
+  API_KEY_NOT_FOUND: 'API key not found',
+  API_KEY_INVALID: 'Invalid API key definition provided',
+  REVIEW_NOT_FOUND: 'Review item not found',
+  REVIEW_INVALID_TRANSITION: 'This action is not allowed in the review item\'s current state',
+  REVIEW_NOT_ASSIGNED: 'Review item is not claimed by this reviewer',
   CONTENT_TOO_LONG: 'Content is too long for analysis',
   CONTENT_EMPTY: 'Content cannot be empty',
+  BATCH_EMPTY: 'Batch must contain at least one item',
+  BATCH_TOO_LARGE: 'Batch exceeds the maximum number of items',
+  BACKTEST_INVALID: 'Invalid backtest request provided',
+  BACKTEST_EMPTY: 'Backtest found no samples to replay',
+  BACKTEST_TOO_LARGE: 'Backtest exceeds the maximum number of samples',
+  AUDIT_CONTENT_UNAVAILABLE: 'The audit log does not keep content that can be replayed',
+  INVALID_IMAGE: 'Image content must be a base64 or data URL encoded JPEG, PNG, GIF or WebP image',
+  IMAGE_TOO_LARGE: 'Image is too large for analysis',
+  IMAGE_BLOCKLIST_ENTRY_NOT_FOUND: 'Image blocklist entry not found',
+  IMAGE_BLOCKLIST_ENTRY_INVALID: 'Invalid image blocklist entry provided',
+  REMEDIATION_NOT_SUPPORTED: 'Remediation rewrites text and is not available for this content',
   
   // Validation Messages
   INVALID_CONTENT_TYPE: 'Invalid content type specified',
@@ -57,18 +122,68 @@ export const ERROR_CODES = {
   INVALID_REQUEST: 'INVALID_REQUEST',
   CONTENT_TOO_LONG: 'CONTENT_TOO_LONG',
   CONTENT_EMPTY: 'CONTENT_EMPTY',
+  BATCH_EMPTY: 'BATCH_EMPTY',
+  BATCH_TOO_LARGE: 'BATCH_TOO_LARGE',
+  BACKTEST_INVALID: 'BACKTEST_INVALID',
+  BACKTEST_EMPTY: 'BACKTEST_EMPTY',
+  BACKTEST_TOO_LARGE: 'BACKTEST_TOO_LARGE',
+  AUDIT_CONTENT_UNAVAILABLE: 'AUDIT_CONTENT_UNAVAILABLE',
   INVALID_CONTENT_TYPE: 'INVALID_CONTENT_TYPE',
   INVALID_PLATFORM: 'INVALID_PLATFORM',
   MODERATION_FAILED: 'MODERATION_FAILED',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
   SERVER_ERROR: 'SERVER_ERROR',
   RULE_NOT_FOUND: 'RULE_NOT_FOUND',
-  CONFIG_INVALID: 'CONFIG_INVALID'
+  RULE_INVALID: 'RULE_INVALID',
+  RULE_ALREADY_EXISTS: 'RULE_ALREADY_EXISTS',
+  POLICY_INVALID: 'POLICY_INVALID',
+  POLICY_CLAUSE_NOT_FOUND: 'POLICY_CLAUSE_NOT_FOUND',
+  POLICY_CLAUSE_ALREADY_EXISTS: 'POLICY_CLAUSE_ALREADY_EXISTS',
+  PLATFORM_NOT_FOUND: 'PLATFORM_NOT_FOUND',
+  PLATFORM_PROFILE_INVALID: 'PLATFORM_PROFILE_INVALID',
+  PLATFORM_PROFILE_BUILT_IN: 'PLATFORM_PROFILE_BUILT_IN',
+  PLATFORM_IN_USE: 'PLATFORM_IN_USE',
+  CONFIG_INVALID: 'CONFIG_INVALID',
+  CONFIG_VERSION_NOT_FOUND: 'CONFIG_VERSION_NOT_FOUND',
+  TENANT_NOT_FOUND: 'TENANT_NOT_FOUND',
+  TENANT_INVALID: 'TENANT_INVALID',
+  TENANT_ALREADY_EXISTS: 'TENANT_ALREADY_EXISTS',
+  API_KEY_NOT_FOUND: 'API_KEY_NOT_FOUND',
+  API_KEY_INVALID: 'API_KEY_INVALID',
+  REVIEW_NOT_FOUND: 'REVIEW_NOT_FOUND',
+  REVIEW_INVALID_TRANSITION: 'REVIEW_INVALID_TRANSITION',
+  REVIEW_NOT_ASSIGNED: 'REVIEW_NOT_ASSIGNED',
+  IMAGE_BLOCKLIST_ENTRY_NOT_FOUND: 'IMAGE_BLOCKLIST_ENTRY_NOT_FOUND',
+  IMAGE_BLOCKLIST_ENTRY_INVALID: 'IMAGE_BLOCKLIST_ENTRY_INVALID',
+  REMEDIATION_NOT_SUPPORTED: 'REMEDIATION_NOT_SUPPORTED'
 } as const;
 
 export const SUCCESS_CODES = {
   MODERATION_COMPLETE: 'MODERATION_COMPLETE',
+  BATCH_MODERATION_COMPLETE: 'BATCH_MODERATION_COMPLETE',
+  BACKTEST_COMPLETE: 'BACKTEST_COMPLETE',
+  REMEDIATION_COMPLETE: 'REMEDIATION_COMPLETE',
+  RULE_CREATED: 'RULE_CREATED',
   RULE_UPDATED: 'RULE_UPDATED',
+  RULE_DELETED: 'RULE_DELETED',
+  POLICY_UPDATED: 'POLICY_UPDATED',
+  POLICY_CLAUSE_CREATED: 'POLICY_CLAUSE_CREATED',
+  POLICY_CLAUSE_UPDATED: 'POLICY_CLAUSE_UPDATED',
+  POLICY_CLAUSE_DELETED: 'POLICY_CLAUSE_DELETED',
+  PLATFORM_PROFILE_SAVED: 'PLATFORM_PROFILE_SAVED',
+  PLATFORM_PROFILE_DELETED: 'PLATFORM_PROFILE_DELETED',
   CONFIG_UPDATED: 'CONFIG_UPDATED',
+  CONFIG_ROLLED_BACK: 'CONFIG_ROLLED_BACK',
+  TENANT_CREATED: 'TENANT_CREATED',
+  TENANT_UPDATED: 'TENANT_UPDATED',
+  TENANT_DELETED: 'TENANT_DELETED',
+  API_KEY_CREATED: 'API_KEY_CREATED',
+  API_KEY_UPDATED: 'API_KEY_UPDATED',
+  API_KEY_REVOKED: 'API_KEY_REVOKED',
+  REVIEW_UPDATED: 'REVIEW_UPDATED',
+  IMAGE_BLOCKLIST_ENTRY_ADDED: 'IMAGE_BLOCKLIST_ENTRY_ADDED',
+  IMAGE_BLOCKLIST_ENTRY_REMOVED: 'IMAGE_BLOCKLIST_ENTRY_REMOVED',
   SERVICE_HEALTHY: 'SERVICE_HEALTHY'
 } as const; 
\ No newline at end of file
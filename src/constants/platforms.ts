@@ -0,0 +1,72 @@
+import { ImageFormat, PlatformProfile, PlatformType } from '../types/content_moderation';
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_PLATFORM_PROFILES: Record<PlatformType, PlatformProfile> = {
+  [PlatformType.TWITTER]: {
+    name: 'Twitter',
+    content_field: 'post',
+    character_limit: 280,
+    // Links are shortened to t.co, and emoji and CJK characters count double
+    character_weights: { url_length: 23, emoji_weight: 2, wide_character_weight: 2 },
+    image: { formats: [ImageFormat.JPEG, ImageFormat.PNG, ImageFormat.GIF, ImageFormat.WEBP], max_bytes: 5 * MB },
+    recommendation: 'Consider using Twitter\'s built-in content warnings for sensitive topics'
+  },
+  [PlatformType.FACEBOOK]: {
+    name: 'Facebook',
+    content_field: 'post',
+    character_limit: 63206,
+    image: { formats: [ImageFormat.JPEG, ImageFormat.PNG, ImageFormat.GIF, ImageFormat.WEBP], max_bytes: 10 * MB }
+  },
+  [PlatformType.INSTAGRAM]: {
+    name: 'Instagram',
+    content_field: 'caption',
+    character_limit: 2200,
+    hashtag_limit: 30,
+    mention_limit: 20,
+    // Feed photos are cropped to between 4:5 portrait and 1.91:1 landscape
+    image: { formats: [ImageFormat.JPEG, ImageFormat.PNG], max_bytes: 8 * MB, min_width: 320, min_aspect_ratio: 0.8, max_aspect_ratio: 1.91 },
+    recommendation: 'Use Instagram\'s content filters and moderation tools'
+  },
+  [PlatformType.LINKEDIN]: {
+    name: 'LinkedIn',
+    content_field: 'post',
+    character_limit: 3000,
+    mention_limit: 5,
+    image: { formats: [ImageFormat.JPEG, ImageFormat.PNG, ImageFormat.GIF], max_bytes: 5 * MB },
+    recommendation: 'Ensure content aligns with LinkedIn\'s professional community guidelines'
+  },
+  [PlatformType.TIKTOK]: {
+    name: 'TikTok',
+    content_field: 'caption',
+    character_limit: 2200,
+    image: { formats: [ImageFormat.JPEG, ImageFormat.PNG, ImageFormat.WEBP], max_bytes: 20 * MB }
+  },
+  [PlatformType.YOUTUBE]: {
+    name: 'YouTube',
+    content_field: 'description',
+    character_limit: 5000,
+    // YouTube ignores every hashtag on a video that has more than this
+    hashtag_limit: 60,
+    fields: {
+      title: { character_limit: 100 }
+    },
+    // Images on YouTube are video thumbnails
+    image: { formats: [ImageFormat.JPEG, ImageFormat.PNG, ImageFormat.GIF], max_bytes: 2 * MB, min_width: 640 }
+  }
+};
+
+// Hosts whose links hide where they lead
+export const URL_SHORTENERS = [
+  'bit.ly',
+  'buff.ly',
+  'cutt.ly',
+  'goo.gl',
+  'is.gd',
+  'ow.ly',
+  'rebrand.ly',
+  'shorturl.at',
+  't.co',
+  'tiny.cc',
+  'tinyurl.com'
+];
@@ -4,14 +4,52 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import path from 'path';
 import {
+  BacktestRequest,
+  BacktestSample,
+  BacktestSkippedSample,
+  BatchModerationRequest,
   ContentModerationRequest,
   ContentModerationResponse,
+  MultiPlatformModerationRequest,
   ModerationConfig,
+  ModerationRule,
+  DecisionPolicy,
+  PolicyClause,
+  PlatformProfile,
+  TenantInput,
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyScope,
+  ApiKeyUpdate,
+  AuditContentMode,
+  ImageBlocklistInput,
+  AuditLogQuery,
+  ReviewAction,
+  ReviewItem,
+  ReviewQueueQuery,
+  ReviewStatus,
   ContentType,
   PlatformType,
   SeverityLevel
 } from './types/content_moderation';
 import { ModerationEngine } from './services/moderation_engine';
+import { ConfigStore } from './services/config_store';
+import { TenantManager } from './services/tenant_manager';
+import { ApiKeyStore, has_scope } from './services/api_key_store';
+import { RateLimiter } from './services/rate_limiter';
+import { AuditLog } from './services/audit_log';
+import { ReviewQueue } from './services/review_queue';
+import { RemediationEngine } from './services/remediation_engine';
+import { Backtester } from './services/backtester';
+import { ImageBlocklist } from './services/image_blocklist';
+import { detector_registry, load_detector_modules, parse_module_list } from './services/detector_registry';
+import { use_toxicity_classifier } from './services/builtin_detectors';
+import { ToxicityClassifier, toxicity_classifier_config } from './services/toxicity_classifier';
+import { DEFAULT_MODERATION_CONFIG, with_config_defaults } from './constants/default_config';
+import { authenticate, require_scope } from './middleware/auth';
+import { consume_rate_limit, rate_limit } from './middleware/rate_limit';
+import { validate_moderation_config, validate_platform_profile } from './utils/config_validation';
+import { clone } from './utils/json_file';
 import { NOTIFICATION_MESSAGES, ERROR_CODES, SUCCESS_CODES } from './constants/notifications';
 
 // Load environment variables
@@ -19,6 +57,9 @@ dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 8005; // Using port 8005 as per user preference
+const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || '500', 10);
+const MAX_BACKTEST_SAMPLES = parseInt(process.env.MAX_BACKTEST_SAMPLES || '1000', 10);
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../data');
 
 // Middleware
 app.use(helmet({
@@ -44,22 +85,145 @@ app.use(express.urlencoded({ extended: true }));
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, '../public')));
 
-// Default configuration
-const default_config: ModerationConfig = {
-  rules: [],
-  sensitivity_threshold: 0.5,
-  enable_sentiment_analysis: true,
-  enable_profanity_detection: true,
-  enable_toxicity_detection: true,
-  enable_spam_detection: true,
-  enable_hate_speech_detection: true,
-  enable_violence_detection: true,
-  enable_sexual_content_detection: true,
-  enable_personal_info_detection: true
-};
+// In-house detectors are registered before any engine is created
+load_detector_modules(detector_registry, parse_module_list(process.env.DETECTOR_MODULES));
+
+// With TOXICITY_CLASSIFIER_URL set the toxicity categories are scored by the external model,
+// falling back to the lexicon when it is down
+const toxicity_classifier_settings = toxicity_classifier_config(process.env);
+const toxicity_classifier = toxicity_classifier_settings ? new ToxicityClassifier(toxicity_classifier_settings) : undefined;
+use_toxicity_classifier(toxicity_classifier);
+
+// Load the persisted configuration, seeding the store with the defaults on first run.
+// Settings added since it was saved are filled in from the defaults and recorded as a new version.
+const config_store = new ConfigStore(path.join(DATA_DIR, 'config_store.json'), DEFAULT_MODERATION_CONFIG);
+let current_config = config_store.get_current();
+const migrated_config = with_config_defaults(current_config.config);
+if (Object.keys(migrated_config).length > Object.keys(current_config.config).length) {
+  current_config = config_store.save(migrated_config, 'system', 'Added settings introduced since the last version');
+}
+
+// Hashes of known-bad images, matched against every IMAGE request whatever the tenant
+const image_blocklist = new ImageBlocklist(path.join(DATA_DIR, 'image_blocklist.json'));
 
 // Initialize moderation engine
-const moderation_engine = new ModerationEngine(default_config);
+const moderation_engine = new ModerationEngine(current_config.config, current_config.version, detector_registry, image_blocklist);
+
+// Tenants get their own engines whose configs inherit from the base configuration
+const tenant_manager = new TenantManager(
+  path.join(DATA_DIR, 'tenants.json'),
+  current_config.config,
+  current_config.version,
+  image_blocklist
+);
+
+// API keys are persisted hashed; ADMIN_API_KEY or npm run create-key bootstraps the first admin key.
+// AUTH_DISABLED=true turns authentication off, for local development only.
+const AUTH_DISABLED = process.env.AUTH_DISABLED === 'true';
+const api_key_store = new ApiKeyStore(path.join(DATA_DIR, 'api_keys.json'), process.env.ADMIN_API_KEY);
+if (AUTH_DISABLED) {
+  console.warn('AUTH_DISABLED is set: every /api request is allowed without an API key');
+} else if (!api_key_store.has_keys()) {
+  console.warn('No API keys configured: every /api request will be rejected until ADMIN_API_KEY is set or npm run create-key is run');
+}
+
+const rate_limiter = new RateLimiter({
+  burst: parseInt(process.env.RATE_LIMIT_BURST || '20', 10),
+  refill_per_second: parseFloat(process.env.RATE_LIMIT_REFILL_PER_SECOND || '5'),
+  quota: parseInt(process.env.RATE_LIMIT_QUOTA || '1000', 10),
+  quota_window_ms: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '3600000', 10)
+});
+
+app.use('/api', authenticate(api_key_store, AUTH_DISABLED), rate_limit(rate_limiter));
+
+// Append-only audit trail of every moderation decision
+const audit_log = new AuditLog(path.join(DATA_DIR, 'audit.jsonl'), {
+  retention_days: parseInt(process.env.AUDIT_RETENTION_DAYS || '90', 10),
+  content_mode: (process.env.AUDIT_CONTENT_MODE as AuditContentMode) || AuditContentMode.HASH_ONLY
+});
+audit_log.prune();
+setInterval(() => audit_log.prune(), 60 * 60 * 1000).unref();
+
+const remediation_engine = new RemediationEngine();
+
+// Borderline content waits here for a human decision
+const review_queue = new ReviewQueue(path.join(DATA_DIR, 'review_queue.json'));
+
+// Resolve the tenant for each API request: keys bound to a tenant always use it,
+// other keys may pick one with the X-Tenant-ID header
+app.use('/api', (req, res, next) => {
+  const api_key = res.locals.api_key as ApiKey | undefined;
+  const requested_tenant_id = req.header('x-tenant-id');
+  const tenant_id = api_key?.tenant_id || requested_tenant_id;
+
+  if (api_key?.tenant_id && requested_tenant_id && requested_tenant_id !== api_key.tenant_id) {
+    return res.status(403).json({
+      error: ERROR_CODES.FORBIDDEN,
+      message: NOTIFICATION_MESSAGES.FORBIDDEN,
+      details: 'API key is bound to a different tenant'
+    });
+  }
+
+  if (tenant_id) {
+    if (!tenant_manager.get_tenant(tenant_id)) {
+      return res.status(404).json({
+        error: ERROR_CODES.TENANT_NOT_FOUND,
+        message: NOTIFICATION_MESSAGES.TENANT_NOT_FOUND
+      });
+    }
+    res.locals.tenant_id = tenant_id;
+  }
+
+  return next();
+});
+
+function get_engine(res: express.Response): ModerationEngine {
+  const tenant_id = res.locals.tenant_id as string | undefined;
+  return (tenant_id && tenant_manager.get_engine(tenant_id)) || moderation_engine;
+}
+
+function record_audit(res: express.Response, request: ContentModerationRequest, result: ContentModerationResponse): void {
+  try {
+    const api_key = res.locals.api_key as ApiKey | undefined;
+    audit_log.record(request, result, { tenant_id: res.locals.tenant_id, api_key_id: api_key?.id });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+function queue_for_review(res: express.Response, request: ContentModerationRequest, result: ContentModerationResponse): void {
+  if (!result.requires_review) return;
+
+  const item = review_queue.enqueue(request, result, res.locals.tenant_id);
+  result.review_id = item.id;
+}
+
+function get_actor(req: express.Request, res: express.Response): string {
+  const api_key = res.locals.api_key as ApiKey | undefined;
+  return api_key ? api_key.name : req.header('x-author') || 'anonymous';
+}
+
+// Persist the current configuration: tenant changes are stored as overrides,
+// base changes as a new numbered version that all tenants inherit
+function record_config_change(req: express.Request, res: express.Response, comment: string): Record<string, unknown> {
+  const tenant_id = res.locals.tenant_id as string | undefined;
+
+  if (tenant_id) {
+    const tenant = tenant_manager.save_engine_config(tenant_id, get_actor(req, res), comment);
+    const history = tenant_manager.get_config_history(tenant_id) as ConfigStore<Partial<ModerationConfig>>;
+    return {
+      version: moderation_engine.get_config_version(),
+      tenant_id,
+      tenant_revision: tenant.revision,
+      tenant_version: history.get_current().version
+    };
+  }
+
+  const entry = config_store.save(moderation_engine.get_config(), get_actor(req, res), comment);
+  moderation_engine.set_config_version(entry.version);
+  tenant_manager.update_base_config(entry.config, entry.version);
+  return { version: entry.version };
+}
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -67,12 +231,18 @@ app.get('/health', (req, res) => {
     status: 'healthy',
     message: NOTIFICATION_MESSAGES.HEALTH_CHECK,
     timestamp: new Date().toISOString(),
-    version: '1.0.0'
+    version: '1.0.0',
+    toxicity_classifier: toxicity_classifier?.status()
   });
 });
 
 // Main content moderation endpoint
-app.post('/api/moderate', async (req, res) => {
+app.post('/api/moderate', require_scope(ApiKeyScope.MODERATE), async (req, res) => {
+  // A list of platforms moderates a cross-post once and returns a verdict per platform
+  if (req.body && req.body.platforms !== undefined) {
+    return moderate_for_platforms(req, res);
+  }
+
   try {
     const request_body = req.body as ContentModerationRequest;
 
@@ -86,7 +256,9 @@ app.post('/api/moderate', async (req, res) => {
     }
 
     // Perform content moderation
-    const result = await moderation_engine.moderate_content(request_body);
+    const result = await get_engine(res).moderate_content(request_body);
+    queue_for_review(res, request_body, result);
+    record_audit(res, request_body, result);
 
     return res.json({
       success: true,
@@ -105,13 +277,149 @@ app.post('/api/moderate', async (req, res) => {
   }
 });
 
+async function moderate_for_platforms(req: express.Request, res: express.Response) {
+  try {
+    const request_body = req.body as MultiPlatformModerationRequest;
+
+    if (!request_body.content || !request_body.content_type ||
+        !Array.isArray(request_body.platforms) || request_body.platforms.length === 0) {
+      return res.status(400).json({
+        error: ERROR_CODES.INVALID_REQUEST,
+        message: NOTIFICATION_MESSAGES.INVALID_REQUEST,
+        details: 'Missing required fields: content, content_type, platforms (a non-empty array)'
+      });
+    }
+
+    const result = await get_engine(res).moderate_for_platforms(request_body);
+
+    // Each verdict is a decision of its own, so each is queued and audited separately
+    for (const [platform, verdict] of Object.entries(result.verdicts)) {
+      const { platforms: _platforms, ...rest } = request_body;
+      const platform_request: ContentModerationRequest = { ...rest, platform: platform as PlatformType };
+      queue_for_review(res, platform_request, verdict);
+      record_audit(res, platform_request, verdict);
+    }
+
+    return res.json({
+      success: true,
+      code: SUCCESS_CODES.MODERATION_COMPLETE,
+      message: Object.values(result.verdicts).some(verdict => verdict.is_flagged)
+        ? NOTIFICATION_MESSAGES.CONTENT_FLAGGED
+        : NOTIFICATION_MESSAGES.CONTENT_SAFE,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Moderation error:', error);
+    return res.status(500).json({
+      error: ERROR_CODES.MODERATION_FAILED,
+      message: NOTIFICATION_MESSAGES.MODERATION_FAILED,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// Suggest a cleaned-up version of the post and re-moderate it
+app.post('/api/remediate', require_scope(ApiKeyScope.MODERATE), async (req, res) => {
+  try {
+    const request_body = req.body as ContentModerationRequest;
+
+    if (!request_body.content || !request_body.content_type || !request_body.platform) {
+      return res.status(400).json({
+        error: ERROR_CODES.INVALID_REQUEST,
+        message: NOTIFICATION_MESSAGES.INVALID_REQUEST,
+        details: 'Missing required fields: content, content_type, platform'
+      });
+    }
+
+    if (!remediation_engine.supports(request_body)) {
+      return res.status(400).json({
+        error: ERROR_CODES.REMEDIATION_NOT_SUPPORTED,
+        message: NOTIFICATION_MESSAGES.REMEDIATION_NOT_SUPPORTED,
+        details: `Content type ${request_body.content_type} can't be rewritten`
+      });
+    }
+
+    const result = await remediation_engine.remediate(request_body, get_engine(res));
+
+    return res.json({
+      success: true,
+      code: SUCCESS_CODES.REMEDIATION_COMPLETE,
+      message: NOTIFICATION_MESSAGES.REMEDIATION_COMPLETE,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Remediation error:', error);
+    return res.status(500).json({
+      error: ERROR_CODES.MODERATION_FAILED,
+      message: NOTIFICATION_MESSAGES.MODERATION_FAILED,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Batch content moderation endpoint
+app.post('/api/moderate/batch', require_scope(ApiKeyScope.MODERATE), async (req, res) => {
+  try {
+    const request_body = req.body as BatchModerationRequest;
+
+    if (!request_body || !Array.isArray(request_body.items)) {
+      return res.status(400).json({
+        error: ERROR_CODES.INVALID_REQUEST,
+        message: NOTIFICATION_MESSAGES.INVALID_REQUEST,
+        details: 'Missing required field: items (array)'
+      });
+    }
+
+    if (request_body.items.length === 0) {
+      return res.status(400).json({
+        error: ERROR_CODES.BATCH_EMPTY,
+        message: NOTIFICATION_MESSAGES.BATCH_EMPTY
+      });
+    }
+
+    if (request_body.items.length > MAX_BATCH_SIZE) {
+      return res.status(413).json({
+        error: ERROR_CODES.BATCH_TOO_LARGE,
+        message: NOTIFICATION_MESSAGES.BATCH_TOO_LARGE,
+        details: `Maximum batch size is ${MAX_BATCH_SIZE}`
+      });
+    }
+
+    const result = await get_engine(res).moderate_batch(request_body.items);
+    result.results.forEach((item_result, index) => {
+      if (item_result.data) {
+        queue_for_review(res, request_body.items[index], item_result.data);
+        record_audit(res, request_body.items[index], item_result.data);
+      }
+    });
+
+    return res.json({
+      success: true,
+      code: SUCCESS_CODES.BATCH_MODERATION_COMPLETE,
+      message: NOTIFICATION_MESSAGES.BATCH_MODERATION_COMPLETE,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Batch moderation error:', error);
+    return res.status(500).json({
+      error: ERROR_CODES.MODERATION_FAILED,
+      message: NOTIFICATION_MESSAGES.MODERATION_FAILED,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get configuration endpoint
-app.get('/api/config', (req, res) => {
+app.get('/api/config', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
   try {
-    const config = moderation_engine.get_config();
+    const engine = get_engine(res);
     res.json({
       success: true,
-      data: config
+      // Every registered detector is listed, so in-house modules show up without config changes
+      data: { ...engine.get_config(), detectors: engine.get_detector_settings() }
     });
   } catch (error) {
     res.status(500).json({
@@ -121,61 +429,1055 @@ app.get('/api/config', (req, res) => {
   }
 });
 
+// List registered detectors with their settings schemas and whether they are enabled
+app.get('/api/config/detectors', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  res.json({
+    success: true,
+    data: get_engine(res).get_detectors()
+  });
+});
+
 // Update configuration endpoint
-app.put('/api/config', (req, res) => {
+app.put('/api/config', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const engine = get_engine(res);
+  const previous_config = engine.get_config();
+  const previous_version = engine.get_config_version();
+
   try {
-    const new_config = req.body as ModerationConfig;
-    moderation_engine.update_config(new_config);
+    const errors = validate_moderation_config(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: ERROR_CODES.CONFIG_INVALID,
+        message: NOTIFICATION_MESSAGES.CONFIG_INVALID,
+        details: errors
+      });
+    }
 
-    res.json({
+    const new_config = with_config_defaults(req.body as ModerationConfig);
+    engine.update_config(new_config);
+
+    return res.json({
       success: true,
       code: SUCCESS_CODES.CONFIG_UPDATED,
-      message: NOTIFICATION_MESSAGES.CONFIG_UPDATED
+      message: NOTIFICATION_MESSAGES.CONFIG_UPDATED,
+      data: record_config_change(req, res, 'Configuration replaced')
     });
   } catch (error) {
-    res.status(400).json({
+    // The change wasn't saved, so the engine goes back to the configuration that was
+    engine.update_config(previous_config, previous_version);
+    return res.status(400).json({
       error: ERROR_CODES.CONFIG_INVALID,
       message: NOTIFICATION_MESSAGES.CONFIG_INVALID
     });
   }
 });
 
-// Test endpoint with sample content
-app.post('/api/test', async (req, res) => {
-  try {
-    const test_content = req.body.content || 'This is a test message for content moderation.';
-    const platform = req.body.platform || PlatformType.TWITTER;
+// Tenant callers see the versions of their overrides; everyone else the base configuration's
+function get_config_history(res: express.Response): ConfigStore<object> {
+  const tenant_id = res.locals.tenant_id as string | undefined;
+  return (tenant_id && tenant_manager.get_config_history(tenant_id)) || config_store;
+}
 
-    const test_request: ContentModerationRequest = {
-      content: test_content,
-      content_type: ContentType.TEXT,
-      platform: platform,
-      user_id: 'test_user',
-      metadata: { test: true }
-    };
+// List configuration versions
+app.get('/api/config/versions', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  const history = get_config_history(res);
+  res.json({
+    success: true,
+    data: {
+      current_version: history.get_current().version,
+      versions: history.list_versions()
+    }
+  });
+});
+
+// Get a single configuration version
+app.get('/api/config/versions/:version', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  const entry = get_config_history(res).get_version(parseInt(req.params.version, 10));
+
+  if (!entry) {
+    return res.status(404).json({
+      error: ERROR_CODES.CONFIG_VERSION_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: entry
+  });
+});
 
-    const result = await moderation_engine.moderate_content(test_request);
+// Diff two configuration versions
+app.get('/api/config/diff', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  const from_version = parseInt(req.query.from as string, 10);
+  const history = get_config_history(res);
+  const to_version = req.query.to ? parseInt(req.query.to as string, 10) : history.get_current().version;
 
+  try {
     res.json({
       success: true,
-      message: 'Test completed successfully',
-      data: result
+      data: {
+        from: from_version,
+        to: to_version,
+        changes: history.diff(from_version, to_version)
+      }
+    });
+  } catch (error) {
+    res.status(404).json({
+      error: ERROR_CODES.CONFIG_VERSION_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND
     });
+  }
+});
+
+// Roll back to a previous configuration version (recorded as a new version).
+// Tenant callers roll back their overrides; the base configuration is never touched.
+app.post('/api/config/rollback/:version', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const tenant_id = res.locals.tenant_id as string | undefined;
 
+  try {
+    if (tenant_id) {
+      const entry = tenant_manager.rollback_overrides(tenant_id, parseInt(req.params.version, 10), get_actor(req, res));
+      return res.json({
+        success: true,
+        code: SUCCESS_CODES.CONFIG_ROLLED_BACK,
+        message: NOTIFICATION_MESSAGES.CONFIG_ROLLED_BACK,
+        data: { tenant_id, tenant_version: entry.version }
+      });
+    }
+
+    const target = config_store.get_version(parseInt(req.params.version, 10));
+    if (!target) {
+      throw new Error(NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND);
+    }
+
+    // Versions from before a setting existed are rolled back with its default
+    const entry = config_store.save(with_config_defaults(target.config), get_actor(req, res), `Rollback to version ${target.version}`);
+    moderation_engine.update_config(entry.config, entry.version);
+    tenant_manager.update_base_config(entry.config, entry.version);
+
+    return res.json({
+      success: true,
+      code: SUCCESS_CODES.CONFIG_ROLLED_BACK,
+      message: NOTIFICATION_MESSAGES.CONFIG_ROLLED_BACK,
+      data: { version: entry.version }
+    });
   } catch (error) {
-    res.status(500).json({
-      error: ERROR_CODES.MODERATION_FAILED,
-      message: NOTIFICATION_MESSAGES.MODERATION_FAILED,
-      details: error instanceof Error ? error.message : 'Unknown error'
+    return res.status(404).json({
+      error: ERROR_CODES.CONFIG_VERSION_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND
     });
   }
 });
 
-// Get supported platforms endpoint
-app.get('/api/platforms', (req, res) => {
-  res.json({
+// List custom rules, optionally filtered by platform and enabled state
+app.get('/api/rules', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  const rule_engine = get_engine(res).get_rule_engine();
+  const platform = req.query.platform as string | undefined;
+  const enabled = req.query.enabled as string | undefined;
+
+  if (platform && !get_engine(res).get_platforms().includes(platform)) {
+    return res.status(400).json({
+      error: ERROR_CODES.INVALID_PLATFORM,
+      message: NOTIFICATION_MESSAGES.INVALID_PLATFORM
+    });
+  }
+
+  let rules = platform
+    ? rule_engine.get_rules_for_platform(platform as PlatformType)
+    : rule_engine.get_all_rules();
+
+  if (enabled === 'true' || enabled === 'false') {
+    rules = rules.filter(rule => rule.enabled === (enabled === 'true'));
+  }
+
+  return res.json({
+    success: true,
+    data: rules
+  });
+});
+
+// Get a single custom rule
+app.get('/api/rules/:id', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  const rule = get_engine(res).get_rule_engine().get_rule(req.params.id);
+
+  if (!rule) {
+    return res.status(404).json({
+      error: ERROR_CODES.RULE_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.RULE_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: rule
+  });
+});
+
+// Create a custom rule
+app.post('/api/rules', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const rule_engine = get_engine(res).get_rule_engine();
+  const new_rule: ModerationRule = {
+    description: '',
+    enabled: true,
+    ...req.body
+  };
+
+  const errors = rule_engine.validate_rule(new_rule, get_engine(res).get_platforms());
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.RULE_INVALID,
+      message: NOTIFICATION_MESSAGES.RULE_INVALID,
+      details: errors
+    });
+  }
+
+  if (rule_engine.get_rule(new_rule.id)) {
+    return res.status(409).json({
+      error: ERROR_CODES.RULE_ALREADY_EXISTS,
+      message: NOTIFICATION_MESSAGES.RULE_ALREADY_EXISTS
+    });
+  }
+
+  rule_engine.add_rule(new_rule);
+  record_config_change(req, res, `Rule ${new_rule.id} created`);
+
+  return res.status(201).json({
+    success: true,
+    code: SUCCESS_CODES.RULE_CREATED,
+    message: NOTIFICATION_MESSAGES.RULE_CREATED,
+    data: new_rule
+  });
+});
+
+// Update a custom rule (partial updates are merged into the existing rule)
+app.put('/api/rules/:id', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const rule_engine = get_engine(res).get_rule_engine();
+  const existing_rule = rule_engine.get_rule(req.params.id);
+
+  if (!existing_rule) {
+    return res.status(404).json({
+      error: ERROR_CODES.RULE_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.RULE_NOT_FOUND
+    });
+  }
+
+  const errors = rule_engine.validate_rule({ ...existing_rule, ...req.body, id: existing_rule.id }, get_engine(res).get_platforms());
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.RULE_INVALID,
+      message: NOTIFICATION_MESSAGES.RULE_INVALID,
+      details: errors
+    });
+  }
+
+  const updated_rule = rule_engine.update_rule(existing_rule.id, req.body);
+  record_config_change(req, res, `Rule ${existing_rule.id} updated`);
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.RULE_UPDATED,
+    message: NOTIFICATION_MESSAGES.RULE_UPDATED,
+    data: updated_rule
+  });
+});
+
+// Delete a custom rule
+app.delete('/api/rules/:id', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  if (!get_engine(res).get_rule_engine().remove_rule(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.RULE_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.RULE_NOT_FOUND
+    });
+  }
+
+  record_config_change(req, res, `Rule ${req.params.id} deleted`);
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.RULE_DELETED,
+    message: NOTIFICATION_MESSAGES.RULE_DELETED
+  });
+});
+
+// Enable or disable a custom rule
+app.post('/api/rules/:id/:action(enable|disable)', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const rule_engine = get_engine(res).get_rule_engine();
+  const toggled = req.params.action === 'enable'
+    ? rule_engine.enable_rule(req.params.id)
+    : rule_engine.disable_rule(req.params.id);
+
+  if (!toggled) {
+    return res.status(404).json({
+      error: ERROR_CODES.RULE_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.RULE_NOT_FOUND
+    });
+  }
+
+  record_config_change(req, res, `Rule ${req.params.id} ${req.params.action}d`);
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.RULE_UPDATED,
+    message: NOTIFICATION_MESSAGES.RULE_UPDATED,
+    data: rule_engine.get_rule(req.params.id)
+  });
+});
+
+
+// Get the decision policy that maps flags to actions
+app.get('/api/policy', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  return res.json({
+    success: true,
+    data: get_engine(res).get_policy_engine().get_policy()
+  });
+});
+
+// Replace the whole decision policy
+app.put('/api/policy', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const policy_engine = get_engine(res).get_policy_engine();
+  const new_policy: DecisionPolicy = req.body;
+
+  const errors = policy_engine.validate_policy(new_policy, get_engine(res).get_platforms());
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.POLICY_INVALID,
+      message: NOTIFICATION_MESSAGES.POLICY_INVALID,
+      details: errors
+    });
+  }
+
+  policy_engine.update_policy(new_policy);
+  record_config_change(req, res, 'Decision policy replaced');
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.POLICY_UPDATED,
+    message: NOTIFICATION_MESSAGES.POLICY_UPDATED,
+    data: policy_engine.get_policy()
+  });
+});
+
+// Add a clause to the decision policy
+app.post('/api/policy/clauses', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const policy_engine = get_engine(res).get_policy_engine();
+  const new_clause: PolicyClause = {
+    description: '',
+    enabled: true,
+    ...req.body
+  };
+
+  const errors = policy_engine.validate_clause(new_clause, get_engine(res).get_platforms());
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.POLICY_INVALID,
+      message: NOTIFICATION_MESSAGES.POLICY_INVALID,
+      details: errors
+    });
+  }
+
+  if (policy_engine.get_clause(new_clause.id)) {
+    return res.status(409).json({
+      error: ERROR_CODES.POLICY_CLAUSE_ALREADY_EXISTS,
+      message: NOTIFICATION_MESSAGES.POLICY_CLAUSE_ALREADY_EXISTS
+    });
+  }
+
+  policy_engine.add_clause(new_clause);
+  record_config_change(req, res, `Policy clause ${new_clause.id} created`);
+
+  return res.status(201).json({
+    success: true,
+    code: SUCCESS_CODES.POLICY_CLAUSE_CREATED,
+    message: NOTIFICATION_MESSAGES.POLICY_CLAUSE_CREATED,
+    data: new_clause
+  });
+});
+
+// Update a policy clause (partial updates are merged into the existing clause)
+app.put('/api/policy/clauses/:id', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const policy_engine = get_engine(res).get_policy_engine();
+  const existing_clause = policy_engine.get_clause(req.params.id);
+
+  if (!existing_clause) {
+    return res.status(404).json({
+      error: ERROR_CODES.POLICY_CLAUSE_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.POLICY_CLAUSE_NOT_FOUND
+    });
+  }
+
+  const errors = policy_engine.validate_clause({ ...existing_clause, ...req.body, id: existing_clause.id }, get_engine(res).get_platforms());
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.POLICY_INVALID,
+      message: NOTIFICATION_MESSAGES.POLICY_INVALID,
+      details: errors
+    });
+  }
+
+  const updated_clause = policy_engine.update_clause(existing_clause.id, req.body);
+  record_config_change(req, res, `Policy clause ${existing_clause.id} updated`);
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.POLICY_CLAUSE_UPDATED,
+    message: NOTIFICATION_MESSAGES.POLICY_CLAUSE_UPDATED,
+    data: updated_clause
+  });
+});
+
+// Delete a policy clause
+app.delete('/api/policy/clauses/:id', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  if (!get_engine(res).get_policy_engine().remove_clause(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.POLICY_CLAUSE_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.POLICY_CLAUSE_NOT_FOUND
+    });
+  }
+
+  record_config_change(req, res, `Policy clause ${req.params.id} deleted`);
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.POLICY_CLAUSE_DELETED,
+    message: NOTIFICATION_MESSAGES.POLICY_CLAUSE_DELETED
+  });
+});
+
+// Replay sample posts through a draft rule or configuration and report how decisions would change.
+// Nothing is applied, audited or queued. Each sample is moderated twice, so this takes the admin scope.
+app.post('/api/backtest', require_scope(ApiKeyScope.ADMIN), async (req, res) => {
+  const engine = get_engine(res);
+  const request_body = (req.body || {}) as BacktestRequest;
+  const errors: string[] = [];
+
+  if ((request_body.rule === undefined) === (request_body.config === undefined)) {
+    errors.push('Provide exactly one of: rule, config');
+  }
+  if (request_body.samples === undefined && request_body.audit === undefined) {
+    errors.push('Provide samples, audit or both');
+  }
+  if (request_body.samples !== undefined &&
+      (!Array.isArray(request_body.samples) || request_body.samples.some(sample => typeof sample !== 'object' || sample === null))) {
+    errors.push('samples must be an array of moderation requests');
+  }
+
+  const audit = request_body.audit;
+  const audit_from = audit?.from ? new Date(audit.from) : undefined;
+  const audit_to = audit?.to ? new Date(audit.to) : undefined;
+  if (audit !== undefined) {
+    if (typeof audit !== 'object' || audit === null) {
+      errors.push('audit must be an object');
+    } else {
+      if (audit.limit !== undefined && (!Number.isInteger(audit.limit) || audit.limit < 1)) {
+        errors.push('audit.limit must be a positive integer');
+      }
+      if (audit.platform !== undefined && !engine.get_platforms().includes(audit.platform)) {
+        errors.push(NOTIFICATION_MESSAGES.INVALID_PLATFORM);
+      }
+      if ((audit_from && isNaN(audit_from.getTime())) || (audit_to && isNaN(audit_to.getTime()))) {
+        errors.push('audit.from and audit.to must be ISO 8601 timestamps');
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.BACKTEST_INVALID,
+      message: NOTIFICATION_MESSAGES.BACKTEST_INVALID,
+      details: errors
+    });
+  }
+
+  // Build the draft engine from a copy, so the live rules and config are never touched
+  let draft_config: ModerationConfig;
+  if (request_body.rule !== undefined) {
+    const draft_rule: ModerationRule = { ...request_body.rule, description: request_body.rule.description ?? '', enabled: true };
+    const rule_errors = engine.get_rule_engine().validate_rule(draft_rule, engine.get_platforms());
+    if (rule_errors.length > 0) {
+      return res.status(400).json({
+        error: ERROR_CODES.RULE_INVALID,
+        message: NOTIFICATION_MESSAGES.RULE_INVALID,
+        details: rule_errors
+      });
+    }
+
+    // A draft with the id of an existing rule stands in for it
+    draft_config = clone(engine.get_config());
+    draft_config.rules = [...draft_config.rules.filter(rule => rule.id !== draft_rule.id), draft_rule];
+  } else {
+    const config_errors = validate_moderation_config(request_body.config, false, engine.get_platforms());
+    if (config_errors.length > 0) {
+      return res.status(400).json({
+        error: ERROR_CODES.CONFIG_INVALID,
+        message: NOTIFICATION_MESSAGES.CONFIG_INVALID,
+        details: config_errors
+      });
+    }
+    draft_config = clone(request_body.config as ModerationConfig);
+  }
+
+  const samples: BacktestSample[] = [...(request_body.samples || [])];
+  const skipped: BacktestSkippedSample[] = [];
+
+  if (audit !== undefined) {
+    const api_key = res.locals.api_key as ApiKey | undefined;
+    if (res.locals.auth_enabled && (!api_key || !has_scope(api_key, ApiKeyScope.AUDIT_READ))) {
+      return res.status(403).json({
+        error: ERROR_CODES.FORBIDDEN,
+        message: NOTIFICATION_MESSAGES.FORBIDDEN,
+        details: `Missing required scope: ${ApiKeyScope.AUDIT_READ}`
+      });
+    }
+
+    if (!audit_log.stores_full_content()) {
+      return res.status(409).json({
+        error: ERROR_CODES.AUDIT_CONTENT_UNAVAILABLE,
+        message: NOTIFICATION_MESSAGES.AUDIT_CONTENT_UNAVAILABLE,
+        details: `AUDIT_CONTENT_MODE must be ${AuditContentMode.FULL}`
+      });
+    }
+
+    const audit_samples = audit_log.samples({
+      tenant_id: res.locals.tenant_id,
+      platform: audit.platform,
+      from: audit_from,
+      to: audit_to,
+      offset: 0,
+      limit: Math.min(MAX_BACKTEST_SAMPLES, audit.limit || 100)
+    });
+    samples.push(...audit_samples.samples);
+    skipped.push(...audit_samples.skipped);
+  }
+
+  if (samples.length === 0 && skipped.length === 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.BACKTEST_EMPTY,
+      message: NOTIFICATION_MESSAGES.BACKTEST_EMPTY
+    });
+  }
+
+  if (samples.length > MAX_BACKTEST_SAMPLES) {
+    return res.status(413).json({
+      error: ERROR_CODES.BACKTEST_TOO_LARGE,
+      message: NOTIFICATION_MESSAGES.BACKTEST_TOO_LARGE,
+      details: `Maximum number of samples is ${MAX_BACKTEST_SAMPLES}`
+    });
+  }
+
+  // Every sample is moderated by both engines; the request itself has already paid for one token
+  if (samples.length > 0 && !consume_rate_limit(rate_limiter, req, res, 2 * samples.length - 1)) {
+    return;
+  }
+
+  try {
+    const draft_engine = new ModerationEngine(draft_config, engine.get_config_version(), detector_registry, image_blocklist);
+    const backtester = new Backtester(engine, draft_engine, request_body.rule?.id);
+
+    return res.json({
+      success: true,
+      code: SUCCESS_CODES.BACKTEST_COMPLETE,
+      message: NOTIFICATION_MESSAGES.BACKTEST_COMPLETE,
+      data: await backtester.run(samples, skipped)
+    });
+  } catch (error) {
+    console.error('Backtest error:', error);
+    return res.status(500).json({
+      error: ERROR_CODES.SERVER_ERROR,
+      message: NOTIFICATION_MESSAGES.SERVER_ERROR,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List tenants
+app.get('/api/tenants', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  res.json({
+    success: true,
+    data: tenant_manager.list_tenants()
+  });
+});
+
+// Get a tenant together with its resolved configuration
+app.get('/api/tenants/:id', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  const tenant = tenant_manager.get_tenant(req.params.id);
+
+  if (!tenant) {
+    return res.status(404).json({
+      error: ERROR_CODES.TENANT_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.TENANT_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: {
+      ...tenant,
+      resolved_config: tenant_manager.get_resolved_config(tenant.id)
+    }
+  });
+});
+
+// Create a tenant
+app.post('/api/tenants', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  const input = req.body as TenantInput;
+  const errors = tenant_manager.validate_tenant(input);
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.TENANT_INVALID,
+      message: NOTIFICATION_MESSAGES.TENANT_INVALID,
+      details: errors
+    });
+  }
+
+  if (tenant_manager.get_tenant(input.id)) {
+    return res.status(409).json({
+      error: ERROR_CODES.TENANT_ALREADY_EXISTS,
+      message: NOTIFICATION_MESSAGES.TENANT_ALREADY_EXISTS
+    });
+  }
+
+  return res.status(201).json({
+    success: true,
+    code: SUCCESS_CODES.TENANT_CREATED,
+    message: NOTIFICATION_MESSAGES.TENANT_CREATED,
+    data: tenant_manager.create_tenant(input)
+  });
+});
+
+// Update a tenant's name, API keys or config overrides
+app.put('/api/tenants/:id', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  if (!tenant_manager.get_tenant(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.TENANT_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.TENANT_NOT_FOUND
+    });
+  }
+
+  const updates = req.body as Partial<TenantInput>;
+  const errors = tenant_manager.validate_tenant(updates, req.params.id);
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.TENANT_INVALID,
+      message: NOTIFICATION_MESSAGES.TENANT_INVALID,
+      details: errors
+    });
+  }
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.TENANT_UPDATED,
+    message: NOTIFICATION_MESSAGES.TENANT_UPDATED,
+    data: tenant_manager.update_tenant(req.params.id, updates, get_actor(req, res), 'Tenant updated')
+  });
+});
+
+// Delete a tenant
+app.delete('/api/tenants/:id', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  if (!tenant_manager.delete_tenant(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.TENANT_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.TENANT_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.TENANT_DELETED,
+    message: NOTIFICATION_MESSAGES.TENANT_DELETED
+  });
+});
+
+// List API keys
+app.get('/api/keys', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  res.json({
+    success: true,
+    data: api_key_store.list_keys()
+  });
+});
+
+// Create an API key; the raw key is only returned in this response
+app.post('/api/keys', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  const input = req.body as ApiKeyInput;
+  const errors = api_key_store.validate_key(input);
+
+  if (input && input.tenant_id && !tenant_manager.get_tenant(input.tenant_id)) {
+    errors.push(`Unknown tenant: ${input.tenant_id}`);
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.API_KEY_INVALID,
+      message: NOTIFICATION_MESSAGES.API_KEY_INVALID,
+      details: errors
+    });
+  }
+
+  return res.status(201).json({
+    success: true,
+    code: SUCCESS_CODES.API_KEY_CREATED,
+    message: NOTIFICATION_MESSAGES.API_KEY_CREATED,
+    data: api_key_store.create_key(input)
+  });
+});
+
+// Update an API key's name, scopes, tenant or rate limits
+app.put('/api/keys/:id', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  const existing = api_key_store.get_key(req.params.id);
+  if (!existing) {
+    return res.status(404).json({
+      error: ERROR_CODES.API_KEY_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.API_KEY_NOT_FOUND
+    });
+  }
+
+  const updates = req.body as ApiKeyUpdate;
+  const errors = api_key_store.validate_key(updates, existing);
+
+  if (updates && typeof updates.tenant_id === 'string' && !tenant_manager.get_tenant(updates.tenant_id)) {
+    errors.push(`Unknown tenant: ${updates.tenant_id}`);
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.API_KEY_INVALID,
+      message: NOTIFICATION_MESSAGES.API_KEY_INVALID,
+      details: errors
+    });
+  }
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.API_KEY_UPDATED,
+    message: NOTIFICATION_MESSAGES.API_KEY_UPDATED,
+    data: api_key_store.update_key(req.params.id, updates)
+  });
+});
+
+// Revoke an API key
+app.delete('/api/keys/:id', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  if (!api_key_store.revoke_key(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.API_KEY_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.API_KEY_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.API_KEY_REVOKED,
+    message: NOTIFICATION_MESSAGES.API_KEY_REVOKED
+  });
+});
+
+// Query the moderation audit log
+app.get('/api/audit', require_scope(ApiKeyScope.AUDIT_READ), (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+  const errors: string[] = [];
+
+  if (query.platform && !get_engine(res).get_platforms().includes(query.platform)) {
+    errors.push(NOTIFICATION_MESSAGES.INVALID_PLATFORM);
+  }
+
+  if (query.severity && !Object.values(SeverityLevel).includes(query.severity as SeverityLevel)) {
+    errors.push(NOTIFICATION_MESSAGES.INVALID_SEVERITY);
+  }
+
+  const from = query.from ? new Date(query.from) : undefined;
+  const to = query.to ? new Date(query.to) : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    errors.push('from and to must be ISO 8601 timestamps');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.INVALID_REQUEST,
+      message: NOTIFICATION_MESSAGES.INVALID_REQUEST,
+      details: errors
+    });
+  }
+
+  const filters: AuditLogQuery = {
+    tenant_id: res.locals.tenant_id,
+    user_id: query.user_id,
+    platform: query.platform as PlatformType | undefined,
+    severity: query.severity as SeverityLevel | undefined,
+    flag_type: query.flag_type,
+    safe_to_post: query.safe_to_post === undefined ? undefined : query.safe_to_post === 'true',
+    from,
+    to,
+    offset: Math.max(0, parseInt(query.offset || '0', 10) || 0),
+    limit: Math.min(500, Math.max(1, parseInt(query.limit || '50', 10) || 50))
+  };
+
+  return res.json({
+    success: true,
+    data: audit_log.query(filters)
+  });
+});
+
+// Review items belong to the tenant that submitted them; callers without a tenant only see items that have none
+function can_access_review(res: express.Response, item: ReviewItem): boolean {
+  return item.tenant_id === res.locals.tenant_id;
+}
+
+// List review items for reviewers
+app.get('/api/reviews', require_scope(ApiKeyScope.REVIEW), (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  if (query.status && !Object.values(ReviewStatus).includes(query.status as ReviewStatus)) {
+    return res.status(400).json({
+      error: ERROR_CODES.INVALID_REQUEST,
+      message: NOTIFICATION_MESSAGES.INVALID_REQUEST,
+      details: `status must be one of: ${Object.values(ReviewStatus).join(', ')}`
+    });
+  }
+
+  const filters: ReviewQueueQuery = {
+    tenant_id: res.locals.tenant_id,
+    status: query.status as ReviewStatus | undefined,
+    platform: query.platform as PlatformType | undefined,
+    assigned_to: query.assigned_to,
+    offset: Math.max(0, parseInt(query.offset || '0', 10) || 0),
+    limit: Math.min(500, Math.max(1, parseInt(query.limit || '50', 10) || 50))
+  };
+
+  return res.json({
+    success: true,
+    data: review_queue.list_items(filters)
+  });
+});
+
+// Get a review item; submitting clients use this to poll for the human decision
+app.get('/api/reviews/:id', require_scope(ApiKeyScope.MODERATE, ApiKeyScope.REVIEW), (req, res) => {
+  const item = review_queue.get_item(req.params.id);
+
+  if (!item || !can_access_review(res, item)) {
+    return res.status(404).json({
+      error: ERROR_CODES.REVIEW_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.REVIEW_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: item
+  });
+});
+
+// Claim, approve, reject or escalate a review item
+app.post('/api/reviews/:id/:action(claim|approve|reject|escalate)', require_scope(ApiKeyScope.REVIEW), (req, res) => {
+  const item = review_queue.get_item(req.params.id);
+
+  if (!item || !can_access_review(res, item)) {
+    return res.status(404).json({
+      error: ERROR_CODES.REVIEW_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.REVIEW_NOT_FOUND
+    });
+  }
+
+  const notes = typeof req.body?.notes === 'string' ? req.body.notes : undefined;
+
+  try {
+    const updated_item = review_queue.apply_action(item.id, req.params.action as ReviewAction, get_actor(req, res), notes);
+
+    if (updated_item.decision) {
+      try {
+        const api_key = res.locals.api_key as ApiKey | undefined;
+        audit_log.record_review(updated_item, { api_key_id: api_key?.id });
+      } catch (error) {
+        console.error('Audit log error:', error);
+      }
+    }
+
+    return res.json({
+      success: true,
+      code: SUCCESS_CODES.REVIEW_UPDATED,
+      message: NOTIFICATION_MESSAGES.REVIEW_UPDATED,
+      data: updated_item
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const error_code = message === NOTIFICATION_MESSAGES.REVIEW_NOT_ASSIGNED
+      ? ERROR_CODES.REVIEW_NOT_ASSIGNED
+      : ERROR_CODES.REVIEW_INVALID_TRANSITION;
+
+    return res.status(409).json({
+      error: error_code,
+      message
+    });
+  }
+});
+
+// Test endpoint with sample content
+app.post('/api/test', require_scope(ApiKeyScope.MODERATE), async (req, res) => {
+  try {
+    const test_content = req.body.content || 'This is a test message for content moderation.';
+    const platform = req.body.platform || PlatformType.TWITTER;
+
+    const test_request: ContentModerationRequest = {
+      content: test_content,
+      content_type: ContentType.TEXT,
+      platform: platform,
+      user_id: 'test_user',
+      metadata: { test: true }
+    };
+
+    const result = await get_engine(res).moderate_content(test_request);
+    record_audit(res, test_request, result);
+
+    res.json({
+      success: true,
+      message: 'Test completed successfully',
+      data: result
+    });
+
+  } catch (error) {
+    res.status(500).json({
+      error: ERROR_CODES.MODERATION_FAILED,
+      message: NOTIFICATION_MESSAGES.MODERATION_FAILED,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get supported platforms endpoint
+app.get('/api/platforms', (req, res) => {
+  res.json({
+    success: true,
+    data: get_engine(res).get_platforms()
+  });
+});
+
+// Get a platform's profile
+app.get('/api/platforms/:id', require_scope(ApiKeyScope.CONFIG_READ), (req, res) => {
+  const profile = get_engine(res).get_platform_profile(req.params.id);
+
+  if (!profile) {
+    return res.status(404).json({
+      error: ERROR_CODES.PLATFORM_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.PLATFORM_NOT_FOUND
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: profile
+  });
+});
+
+// Create or replace a platform profile; new ids add a platform
+app.put('/api/platforms/:id', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const engine = get_engine(res);
+  const errors = validate_moderation_config({ platform_profiles: { [req.params.id]: req.body } }, true);
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.PLATFORM_PROFILE_INVALID,
+      message: NOTIFICATION_MESSAGES.PLATFORM_PROFILE_INVALID,
+      details: errors
+    });
+  }
+
+  const created = !engine.get_platform_profile(req.params.id);
+  const profile: PlatformProfile = req.body;
+  engine.set_platform_profile(req.params.id, profile);
+  record_config_change(req, res, `Platform profile ${req.params.id} ${created ? 'created' : 'updated'}`);
+
+  return res.status(created ? 201 : 200).json({
+    success: true,
+    code: SUCCESS_CODES.PLATFORM_PROFILE_SAVED,
+    message: NOTIFICATION_MESSAGES.PLATFORM_PROFILE_SAVED,
+    data: profile
+  });
+});
+
+// Delete a platform added at runtime
+app.delete('/api/platforms/:id', require_scope(ApiKeyScope.CONFIG_WRITE), (req, res) => {
+  const engine = get_engine(res);
+
+  if (!engine.get_platform_profile(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.PLATFORM_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.PLATFORM_NOT_FOUND
+    });
+  }
+
+  if (Object.values(PlatformType).includes(req.params.id as PlatformType)) {
+    return res.status(400).json({
+      error: ERROR_CODES.PLATFORM_PROFILE_BUILT_IN,
+      message: NOTIFICATION_MESSAGES.PLATFORM_PROFILE_BUILT_IN
+    });
+  }
+
+  // Tenants inherit the base platforms, so a base platform is in use while any tenant still names it
+  const references = engine.get_platform_references(req.params.id);
+  if (!res.locals.tenant_id && references.length === 0) {
+    references.push(...tenant_manager.get_platform_references(req.params.id));
+  }
+  if (references.length > 0) {
+    return res.status(409).json({
+      error: ERROR_CODES.PLATFORM_IN_USE,
+      message: NOTIFICATION_MESSAGES.PLATFORM_IN_USE,
+      details: references
+    });
+  }
+
+  engine.remove_platform_profile(req.params.id);
+
+  record_config_change(req, res, `Platform profile ${req.params.id} deleted`);
+
+  return res.json({
+    success: true,
+    code: SUCCESS_CODES.PLATFORM_PROFILE_DELETED,
+    message: NOTIFICATION_MESSAGES.PLATFORM_PROFILE_DELETED
+  });
+});
+
+// List the image blocklist; it is shared by every tenant, so reading it takes the admin scope too
+app.get('/api/image-blocklist', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  res.json({
+    success: true,
+    data: image_blocklist.list()
+  });
+});
+
+// Add an image, or its hashes, to the blocklist; the list is shared by every tenant, so changing it takes the admin scope
+app.post('/api/image-blocklist', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  const errors = image_blocklist.validate_entry(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: ERROR_CODES.IMAGE_BLOCKLIST_ENTRY_INVALID,
+      message: NOTIFICATION_MESSAGES.IMAGE_BLOCKLIST_ENTRY_INVALID,
+      details: errors
+    });
+  }
+
+  const entry = image_blocklist.add(req.body as ImageBlocklistInput, get_actor(req, res));
+
+  return res.status(201).json({
+    success: true,
+    code: SUCCESS_CODES.IMAGE_BLOCKLIST_ENTRY_ADDED,
+    message: NOTIFICATION_MESSAGES.IMAGE_BLOCKLIST_ENTRY_ADDED,
+    data: entry
+  });
+});
+
+// Remove an image from the blocklist
+app.delete('/api/image-blocklist/:id', require_scope(ApiKeyScope.ADMIN), (req, res) => {
+  if (!image_blocklist.remove(req.params.id)) {
+    return res.status(404).json({
+      error: ERROR_CODES.IMAGE_BLOCKLIST_ENTRY_NOT_FOUND,
+      message: NOTIFICATION_MESSAGES.IMAGE_BLOCKLIST_ENTRY_NOT_FOUND
+    });
+  }
+
+  return res.json({
     success: true,
-    data: Object.values(PlatformType)
+    code: SUCCESS_CODES.IMAGE_BLOCKLIST_ENTRY_REMOVED,
+    message: NOTIFICATION_MESSAGES.IMAGE_BLOCKLIST_ENTRY_REMOVED
   });
 });
 
@@ -0,0 +1,59 @@
+import express from 'express';
+import { ApiKey, ApiKeyScope } from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES, ERROR_CODES } from '../constants/notifications';
+import { ApiKeyStore, has_scope } from '../services/api_key_store';
+
+function extract_api_key(req: express.Request): string | undefined {
+  const header_key = req.header('x-api-key');
+  if (header_key) return header_key;
+
+  const authorization = req.header('authorization');
+  if (authorization && authorization.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim();
+  }
+
+  return undefined;
+}
+
+// Every request needs a valid key, even before any key exists; only an explicit opt-out turns this off
+export function authenticate(api_key_store: ApiKeyStore, auth_disabled: boolean = false): express.RequestHandler {
+  return (req, res, next) => {
+    res.locals.auth_enabled = !auth_disabled;
+    if (!res.locals.auth_enabled) {
+      return next();
+    }
+
+    const raw_key = extract_api_key(req);
+    const api_key = raw_key ? api_key_store.authenticate(raw_key) : undefined;
+
+    if (!api_key) {
+      return res.status(401).json({
+        error: ERROR_CODES.UNAUTHORIZED,
+        message: NOTIFICATION_MESSAGES.UNAUTHORIZED
+      });
+    }
+
+    res.locals.api_key = api_key;
+    return next();
+  };
+}
+
+// Passes when the key has any of the given scopes
+export function require_scope(...scopes: ApiKeyScope[]): express.RequestHandler {
+  return (req, res, next) => {
+    if (!res.locals.auth_enabled) {
+      return next();
+    }
+
+    const api_key = res.locals.api_key as ApiKey | undefined;
+    if (!api_key || !scopes.some(scope => has_scope(api_key, scope))) {
+      return res.status(403).json({
+        error: ERROR_CODES.FORBIDDEN,
+        message: NOTIFICATION_MESSAGES.FORBIDDEN,
+        details: `Missing required scope: ${scopes.join(' or ')}`
+      });
+    }
+
+    return next();
+  };
+}
@@ -0,0 +1,53 @@
+import express from 'express';
+import { ApiKey } from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES, ERROR_CODES } from '../constants/notifications';
+import { RateLimiter } from '../services/rate_limiter';
+
+// Batch moderation spends one token per item, and cross-posts one per platform, so they can't be used to
+// bypass the limits. Every other request costs one token, whatever lists its body holds (a rule's platforms).
+// Mounted under /api, so paths are relative to it.
+function get_request_cost(req: express.Request): number {
+  if (req.method !== 'POST' || !req.body) return 1;
+
+  if (req.path === '/moderate/batch' && Array.isArray(req.body.items) && req.body.items.length > 0) {
+    return req.body.items.length;
+  }
+  if (req.path === '/moderate' && Array.isArray(req.body.platforms) && req.body.platforms.length > 0) {
+    return new Set(req.body.platforms).size;
+  }
+  return 1;
+}
+
+export function rate_limit(rate_limiter: RateLimiter): express.RequestHandler {
+  return (req, res, next) => {
+    if (consume_rate_limit(rate_limiter, req, res, get_request_cost(req))) {
+      next();
+    }
+  };
+}
+
+// Charges the caller for work whose size is only known inside a route, such as the samples a
+// backtest replays. Sends the 429 and returns false when the caller is over the limit.
+export function consume_rate_limit(rate_limiter: RateLimiter, req: express.Request, res: express.Response, cost: number): boolean {
+  const api_key = res.locals.api_key as ApiKey | undefined;
+  const identity = api_key ? `key:${api_key.id}` : `ip:${req.ip}`;
+  const result = rate_limiter.consume(identity, cost, api_key?.rate_limit);
+
+  res.setHeader('X-RateLimit-Limit', result.limit);
+  res.setHeader('X-RateLimit-Remaining', result.remaining);
+  res.setHeader('X-RateLimit-Reset', result.reset_seconds);
+  res.setHeader('X-RateLimit-Burst-Limit', result.burst_limit);
+  res.setHeader('X-RateLimit-Burst-Remaining', result.burst_remaining);
+
+  if (!result.allowed) {
+    res.setHeader('Retry-After', result.retry_after_seconds);
+    res.status(429).json({
+      error: ERROR_CODES.RATE_LIMIT_EXCEEDED,
+      message: NOTIFICATION_MESSAGES.RATE_LIMIT_EXCEEDED,
+      retry_after_seconds: result.retry_after_seconds
+    });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import {
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyScope,
+  ApiKeyUpdate,
+  PublicApiKey
+} from '../types/content_moderation';
+import { read_json_file, write_json_file } from '../utils/json_file';
+
+const BOOTSTRAP_KEY_ID = 'bootstrap_admin';
+const RATE_LIMIT_FIELDS = ['burst', 'refill_per_second', 'quota', 'quota_window_ms'];
+
+interface ApiKeyStoreFile {
+  keys: ApiKey[];
+}
+
+export class ApiKeyStore {
+  private file_path: string;
+  private keys: Map<string, ApiKey>;
+  private bootstrap_key?: ApiKey;
+
+  constructor(file_path: string, bootstrap_admin_key?: string) {
+    this.file_path = file_path;
+    this.keys = new Map();
+
+    const data = read_json_file<ApiKeyStoreFile>(this.file_path, { keys: [] });
+    for (const key of data.keys || []) {
+      this.keys.set(key.id, key);
+    }
+
+    // The bootstrap admin key comes from the environment and is never written to disk
+    if (bootstrap_admin_key) {
+      this.bootstrap_key = {
+        id: BOOTSTRAP_KEY_ID,
+        name: 'Bootstrap admin',
+        key_hash: hash_key(bootstrap_admin_key),
+        key_prefix: bootstrap_admin_key.slice(0, 6),
+        scopes: [ApiKeyScope.ADMIN],
+        created_at: new Date().toISOString()
+      };
+    }
+  }
+
+  private persist(): void {
+    const data: ApiKeyStoreFile = { keys: [...this.keys.values()] };
+    write_json_file(this.file_path, data);
+  }
+
+  has_keys(): boolean {
+    return !!this.bootstrap_key || [...this.keys.values()].some(key => !key.revoked_at);
+  }
+
+  authenticate(raw_key: string): ApiKey | undefined {
+    const key_hash = hash_key(raw_key);
+
+    if (this.bootstrap_key && this.bootstrap_key.key_hash === key_hash) {
+      return this.bootstrap_key;
+    }
+
+    for (const key of this.keys.values()) {
+      if (key.key_hash === key_hash && !key.revoked_at) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  list_keys(): PublicApiKey[] {
+    return [...this.keys.values()].map(to_public_key);
+  }
+
+  get_key(key_id: string): PublicApiKey | undefined {
+    const key = this.keys.get(key_id);
+    return key ? to_public_key(key) : undefined;
+  }
+
+  // The raw key is only returned here; only its hash is stored
+  create_key(input: ApiKeyInput): { api_key: PublicApiKey; key: string } {
+    const raw_key = `cm_${crypto.randomBytes(24).toString('hex')}`;
+    const api_key: ApiKey = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      key_hash: hash_key(raw_key),
+      key_prefix: raw_key.slice(0, 10),
+      scopes: input.scopes,
+      tenant_id: input.tenant_id,
+      rate_limit: input.rate_limit,
+      created_at: new Date().toISOString()
+    };
+
+    this.keys.set(api_key.id, api_key);
+    this.persist();
+    return { api_key: to_public_key(api_key), key: raw_key };
+  }
+
+  update_key(key_id: string, updates: ApiKeyUpdate): PublicApiKey | undefined {
+    const existing = this.keys.get(key_id);
+    if (!existing) return undefined;
+
+    const api_key: ApiKey = {
+      ...existing,
+      name: updates.name ?? existing.name,
+      scopes: updates.scopes ?? existing.scopes,
+      tenant_id: updates.tenant_id === undefined ? existing.tenant_id : updates.tenant_id ?? undefined,
+      rate_limit: updates.rate_limit === undefined ? existing.rate_limit : updates.rate_limit ?? undefined
+    };
+
+    this.keys.set(key_id, api_key);
+    this.persist();
+    return to_public_key(api_key);
+  }
+
+  revoke_key(key_id: string): boolean {
+    const key = this.keys.get(key_id);
+    if (!key || key.revoked_at) return false;
+
+    key.revoked_at = new Date().toISOString();
+    this.persist();
+    return true;
+  }
+
+  // Validates a new key, or with existing an update to it, in which case only the fields present are checked
+  validate_key(input: ApiKeyUpdate, existing?: PublicApiKey): string[] {
+    const errors: string[] = [];
+    const is_update = existing !== undefined;
+
+    if (!is_update || input.name !== undefined) {
+      if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+        errors.push('name must be a non-empty string');
+      }
+    }
+
+    if (!is_update || input.scopes !== undefined) {
+      if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+        errors.push(`scopes must be a non-empty array of: ${Object.values(ApiKeyScope).join(', ')}`);
+      } else {
+        const invalid_scopes = input.scopes.filter(scope => !Object.values(ApiKeyScope).includes(scope));
+        if (invalid_scopes.length > 0) {
+          errors.push(`Invalid scopes: ${invalid_scopes.join(', ')}`);
+        }
+      }
+    }
+
+    const clears_tenant = is_update && input.tenant_id === null;
+    if (input.tenant_id !== undefined && !clears_tenant && typeof input.tenant_id !== 'string') {
+      errors.push(is_update ? 'tenant_id must be a string or null' : 'tenant_id must be a string');
+    }
+
+    // Admin keys act across every tenant, so binding one to a tenant would not restrict it
+    const scopes = input.scopes ?? existing?.scopes;
+    const tenant_id = input.tenant_id === undefined ? existing?.tenant_id : input.tenant_id;
+    if (Array.isArray(scopes) && scopes.includes(ApiKeyScope.ADMIN) && tenant_id) {
+      errors.push('Tenant keys cannot have the admin scope');
+    }
+
+    const clears_rate_limit = is_update && input.rate_limit === null;
+    if (input.rate_limit !== undefined && !clears_rate_limit) {
+      if (typeof input.rate_limit !== 'object' || input.rate_limit === null) {
+        errors.push('rate_limit must be an object');
+      } else {
+        for (const [field, value] of Object.entries(input.rate_limit)) {
+          if (!RATE_LIMIT_FIELDS.includes(field)) {
+            errors.push(`Unknown rate_limit field: ${field}`);
+          } else if (typeof value !== 'number' || value <= 0) {
+            errors.push(`rate_limit.${field} must be a positive number`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+}
+
+export function has_scope(api_key: ApiKey, scope: ApiKeyScope): boolean {
+  return api_key.scopes.includes(ApiKeyScope.ADMIN) || api_key.scopes.includes(scope);
+}
+
+function hash_key(raw_key: string): string {
+  return crypto.createHash('sha256').update(raw_key).digest('hex');
+}
+
+function to_public_key(api_key: ApiKey): PublicApiKey {
+  const { key_hash, ...public_key } = api_key;
+  return { ...public_key };
+}
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  AuditContentMode,
+  AuditLogEntry,
+  AuditLogPage,
+  AuditLogQuery,
+  BacktestSample,
+  BacktestSkippedSample,
+  ContentModerationRequest,
+  ContentModerationResponse,
+  ContentType,
+  ModerationFlag,
+  PolicyAction,
+  ReviewItem
+} from '../types/content_moderation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditLogOptions {
+  retention_days: number;
+  content_mode: AuditContentMode;
+}
+
+export interface AuditContext {
+  tenant_id?: string;
+  api_key_id?: string;
+}
+
+export class AuditLog {
+  private file_path: string;
+  private options: AuditLogOptions;
+
+  constructor(file_path: string, options: AuditLogOptions) {
+    this.file_path = file_path;
+    this.options = options;
+    fs.mkdirSync(path.dirname(this.file_path), { recursive: true });
+  }
+
+  record(request: ContentModerationRequest, response: ContentModerationResponse, context: AuditContext = {}): AuditLogEntry {
+    const content = this.store_content(request.content, request.content_type, response.flags);
+    const entry: AuditLogEntry = {
+      request_id: response.request_id,
+      timestamp: new Date().toISOString(),
+      tenant_id: context.tenant_id,
+      api_key_id: context.api_key_id,
+      user_id: request.user_id,
+      platform: request.platform,
+      content_type: request.content_type,
+      content_hash: hash_content(request.content),
+      content,
+      ...(this.options.content_mode === AuditContentMode.FULL && content !== undefined && {
+        fields: request.fields,
+        metadata: request.metadata,
+        replayable: true
+      }),
+      flags: response.flags.map(flag => this.store_flag(flag)),
+      overall_severity: response.overall_severity,
+      safe_to_post: response.safe_to_post,
+      config_version: response.config_version,
+      processing_time_ms: response.processing_time_ms,
+      review_id: response.review_id,
+      detected_language: response.detected_language,
+      action: response.action
+    };
+
+    fs.appendFileSync(this.file_path, `${JSON.stringify(entry)}\n`);
+    return entry;
+  }
+
+  // The human decision on a queued item is recorded next to the automated one it settles
+  record_review(item: ReviewItem, context: AuditContext = {}): AuditLogEntry {
+    if (!item.decision) {
+      throw new Error('Review item has no decision to record');
+    }
+
+    const entry: AuditLogEntry = {
+      request_id: item.request_id,
+      timestamp: item.decision.decided_at,
+      tenant_id: item.tenant_id,
+      api_key_id: context.api_key_id,
+      user_id: item.user_id,
+      platform: item.platform,
+      content_type: item.content_type,
+      content_hash: item.content_hash ?? hash_content(item.content),
+      content: this.store_content(item.content, item.content_type, item.flags),
+      flags: item.flags.map(flag => this.store_flag(flag)),
+      overall_severity: item.overall_severity,
+      safe_to_post: item.decision.approved,
+      config_version: item.config_version,
+      processing_time_ms: Date.parse(item.decision.decided_at) - Date.parse(item.created_at),
+      review_id: item.id,
+      action: item.decision.approved ? PolicyAction.ALLOW : PolicyAction.BLOCK,
+      review_decision: item.decision
+    };
+
+    fs.appendFileSync(this.file_path, `${JSON.stringify(entry)}\n`);
+    return entry;
+  }
+
+  query(filters: AuditLogQuery): AuditLogPage {
+    const matches = this.read_entries()
+      .filter(entry => this.matches(entry, filters))
+      .reverse(); // Newest first
+
+    return {
+      entries: matches.slice(filters.offset, filters.offset + filters.limit),
+      total: matches.length,
+      offset: filters.offset,
+      limit: filters.limit
+    };
+  }
+
+  // Recorded requests in a form that can be moderated again, newest first. Only possible when content
+  // is stored in full; entries without the whole request are skipped rather than replayed incompletely.
+  // Review decisions are left out, since the request they settle has its own entry.
+  samples(filters: AuditLogQuery): { samples: BacktestSample[]; skipped: BacktestSkippedSample[] } {
+    const result: { samples: BacktestSample[]; skipped: BacktestSkippedSample[] } = { samples: [], skipped: [] };
+    if (this.options.content_mode !== AuditContentMode.FULL) {
+      return result;
+    }
+
+    const requests = this.read_entries()
+      .filter(entry => !entry.review_decision && this.matches(entry, filters))
+      .reverse()
+      .slice(filters.offset, filters.offset + filters.limit);
+
+    for (const entry of requests) {
+      if (!entry.replayable || entry.content === undefined) {
+        result.skipped.push({ sample_id: entry.request_id, details: 'The audit entry does not keep the whole request' });
+        continue;
+      }
+
+      result.samples.push({
+        id: entry.request_id,
+        content: entry.content,
+        content_type: entry.content_type,
+        platform: entry.platform,
+        user_id: entry.user_id,
+        fields: entry.fields,
+        metadata: entry.metadata
+      });
+    }
+
+    return result;
+  }
+
+  stores_full_content(): boolean {
+    return this.options.content_mode === AuditContentMode.FULL;
+  }
+
+  // Retention is the only time entries leave the log; the file is rewritten atomically
+  prune(): number {
+    const cutoff = Date.now() - this.options.retention_days * DAY_MS;
+    const entries = this.read_entries();
+    const retained = entries.filter(entry => Date.parse(entry.timestamp) >= cutoff);
+    const removed = entries.length - retained.length;
+
+    if (removed > 0) {
+      const temp_path = `${this.file_path}.tmp`;
+      fs.writeFileSync(temp_path, retained.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+      fs.renameSync(temp_path, this.file_path);
+    }
+
+    return removed;
+  }
+
+  private read_entries(): AuditLogEntry[] {
+    if (!fs.existsSync(this.file_path)) {
+      return [];
+    }
+
+    const entries: AuditLogEntry[] = [];
+    for (const line of fs.readFileSync(this.file_path, 'utf8').split('\n')) {
+      if (line.trim().length === 0) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        console.warn('Skipping malformed audit log line');
+      }
+    }
+    return entries;
+  }
+
+  private matches(entry: AuditLogEntry, filters: AuditLogQuery): boolean {
+    if (filters.tenant_id !== undefined && entry.tenant_id !== filters.tenant_id) return false;
+    if (filters.user_id !== undefined && entry.user_id !== filters.user_id) return false;
+    if (filters.platform !== undefined && entry.platform !== filters.platform) return false;
+    if (filters.severity !== undefined && entry.overall_severity !== filters.severity) return false;
+    if (filters.safe_to_post !== undefined && entry.safe_to_post !== filters.safe_to_post) return false;
+    if (filters.flag_type !== undefined && !entry.flags.some(flag => flag.type === filters.flag_type)) return false;
+
+    const timestamp = Date.parse(entry.timestamp);
+    if (filters.from && timestamp < filters.from.getTime()) return false;
+    if (filters.to && timestamp > filters.to.getTime()) return false;
+
+    return true;
+  }
+
+  // Images are only identified by content_hash in every mode, so the log never holds their base64
+  private store_content(content: string, content_type: ContentType, flags: ModerationFlag[]): string | undefined {
+    if (content_type === ContentType.IMAGE) {
+      return undefined;
+    }
+
+    switch (this.options.content_mode) {
+      case AuditContentMode.FULL:
+        return content;
+      case AuditContentMode.REDACTED:
+        return redact_content(content, flags);
+      default:
+        return undefined;
+    }
+  }
+
+  // Flagged text is part of the content, so it is only kept when content is stored in full
+  private store_flag(flag: ModerationFlag): ModerationFlag {
+    if (this.options.content_mode === AuditContentMode.FULL) {
+      return flag;
+    }
+
+    const { flagged_text, spans, ...stored_flag } = flag;
+    if (!spans) {
+      return stored_flag;
+    }
+
+    return {
+      ...stored_flag,
+      spans: spans.map(span => ({ ...span, text: '' }))
+    };
+  }
+}
+
+function hash_content(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function redact_content(content: string, flags: ModerationFlag[]): string {
+  // Replace flagged spans from the end so earlier offsets stay valid
+  const spans = flags
+    .flatMap(flag => flag.spans || [])
+    .sort((a, b) => b.start - a.start);
+
+  let redacted = content;
+  let boundary = content.length;
+  for (const span of spans) {
+    // Clip overlaps with the span that was redacted before this one
+    const end = Math.min(span.end, boundary);
+    if (span.start >= end) continue;
+    redacted = redacted.slice(0, span.start) + '[REDACTED]' + redacted.slice(end);
+    boundary = span.start;
+  }
+
+  // Mask anything that still looks like an email address or a long number
+  return redacted
+    .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, '[EMAIL]')
+    .replace(/\d[\d\s().-]{5,}\d/g, '[NUMBER]');
+}
@@ -0,0 +1,119 @@
+import {
+  BacktestChange,
+  BacktestChangeType,
+  BacktestOutcome,
+  BacktestResult,
+  BacktestSample,
+  BacktestSkippedSample,
+  BacktestSummary,
+  ContentModerationResponse
+} from '../types/content_moderation';
+import { ModerationEngine } from './moderation_engine';
+
+// Replays a corpus through the live engine and a draft engine and reports where their decisions differ.
+// Neither engine is asked to audit or queue anything, so a backtest never touches live state.
+export class Backtester {
+  private baseline: ModerationEngine;
+  private candidate: ModerationEngine;
+  private rule_id?: string;
+
+  constructor(baseline: ModerationEngine, candidate: ModerationEngine, rule_id?: string) {
+    this.baseline = baseline;
+    this.candidate = candidate;
+    this.rule_id = rule_id;
+  }
+
+  // Skipped samples couldn't be rebuilt for replay; they are counted and reported but not moderated
+  async run(samples: BacktestSample[], skipped: BacktestSkippedSample[] = []): Promise<BacktestResult> {
+    const start_time = Date.now();
+    const summary: BacktestSummary = {
+      total: samples.length + skipped.length,
+      evaluated: 0,
+      failed: 0,
+      skipped: skipped.length,
+      changed: 0,
+      newly_flagged: 0,
+      newly_unflagged: 0,
+      became_safe: 0,
+      became_unsafe: 0,
+      action_changed: 0
+    };
+    const changes: BacktestChange[] = [];
+    const errors: BacktestResult['errors'] = [];
+    let rule_matches = 0;
+
+    // Sequential on purpose: detection is CPU-bound, and a large corpus shouldn't starve live traffic
+    for (const [index, sample] of samples.entries()) {
+      const sample_id = sample.id || `sample_${index}`;
+      const { id: _id, ...request } = sample;
+
+      let before: ContentModerationResponse;
+      let after: ContentModerationResponse;
+      try {
+        before = await this.baseline.moderate_content(request);
+        after = await this.candidate.moderate_content(request);
+      } catch (error) {
+        summary.failed++;
+        errors.push({ sample_id, details: error instanceof Error ? error.message : 'Unknown error' });
+        continue;
+      }
+
+      summary.evaluated++;
+      if (this.rule_id !== undefined && after.flags.some(flag => flag.type === `custom_rule_${this.rule_id}`)) {
+        rule_matches++;
+      }
+
+      const change = this.compare(sample_id, sample, before, after);
+      if (!change) continue;
+
+      summary.changed++;
+      for (const type of change.changes) {
+        if (type !== BacktestChangeType.FLAGS_CHANGED) {
+          summary[type]++;
+        }
+      }
+      changes.push(change);
+    }
+
+    if (this.rule_id !== undefined) {
+      summary.rule_matches = rule_matches;
+    }
+
+    return { summary, changes, errors, skipped, processing_time_ms: Date.now() - start_time };
+  }
+
+  private compare(
+    sample_id: string,
+    sample: BacktestSample,
+    before_response: ContentModerationResponse,
+    after_response: ContentModerationResponse
+  ): BacktestChange | undefined {
+    const before = outcome(before_response);
+    const after = outcome(after_response);
+    const changes: BacktestChangeType[] = [];
+
+    if (!before.is_flagged && after.is_flagged) changes.push(BacktestChangeType.NEWLY_FLAGGED);
+    if (before.is_flagged && !after.is_flagged) changes.push(BacktestChangeType.NEWLY_UNFLAGGED);
+    if (!before.safe_to_post && after.safe_to_post) changes.push(BacktestChangeType.BECAME_SAFE);
+    if (before.safe_to_post && !after.safe_to_post) changes.push(BacktestChangeType.BECAME_UNSAFE);
+    if (before.action !== after.action) changes.push(BacktestChangeType.ACTION_CHANGED);
+
+    const added_flags = after.flag_types.filter(type => !before.flag_types.includes(type));
+    const removed_flags = before.flag_types.filter(type => !after.flag_types.includes(type));
+    if (added_flags.length > 0 || removed_flags.length > 0) changes.push(BacktestChangeType.FLAGS_CHANGED);
+
+    if (changes.length === 0) return undefined;
+
+    return { sample_id, platform: sample.platform, changes, before, after, added_flags, removed_flags };
+  }
+}
+
+function outcome(response: ContentModerationResponse): BacktestOutcome {
+  return {
+    is_flagged: response.is_flagged,
+    safe_to_post: response.safe_to_post,
+    action: response.action,
+    overall_severity: response.overall_severity,
+    flag_types: [...new Set(response.flags.map(flag => flag.type))].sort()
+  };
+}
@@ -0,0 +1,268 @@
+import { ModerationConfig, ModerationFlag, ScoreSource, SeverityLevel, ToxicityCheckResult } from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { ProfanityDetector } from './profanity_detector';
+import { SentimentAnalyzer } from './sentiment_analyzer';
+import { ToxicityDetector } from './toxicity_detector';
+import { SpamDetector } from './spam_detector';
+import { PersonalInfoDetector } from './personal_info_detector';
+import { SecretDetector } from './secret_detector';
+import { find_phrase_spans, find_word_spans, sort_spans } from '../utils/spans';
+import { ToxicityClassifier } from './toxicity_classifier';
+import { Detector, DetectorInput } from './detector_registry';
+
+// bad-words gives a yes/no answer, so profanity always reports this confidence
+const PROFANITY_CONFIDENCE = 0.9;
+
+const profanity_detector = new ProfanityDetector();
+const sentiment_analyzer = new SentimentAnalyzer();
+const toxicity_detector = new ToxicityDetector();
+const spam_detector = new SpamDetector();
+const personal_info_detector = new PersonalInfoDetector();
+const secret_detector = new SecretDetector();
+
+// Set at startup when an external toxicity model is configured
+let toxicity_classifier: ToxicityClassifier | undefined;
+
+export function use_toxicity_classifier(classifier: ToxicityClassifier | undefined): void {
+  toxicity_classifier = classifier;
+}
+
+const profanity: Detector = {
+  name: 'profanity',
+  description: 'Profane words, including disguised spellings',
+  flag_types: ['profanity'],
+  toggle: 'enable_profanity_detection',
+  async check({ request, normalized, threshold, memo }) {
+    const result = await memo('profanity', () => profanity_detector.check(request.content, normalized));
+    const cutoff = threshold();
+    if (!result.is_profane || PROFANITY_CONFIDENCE <= cutoff) return [];
+
+    return [{
+      type: 'profanity',
+      severity: SeverityLevel.MEDIUM,
+      confidence: PROFANITY_CONFIDENCE,
+      description: NOTIFICATION_MESSAGES.PROFANITY_DETECTED,
+      flagged_text: result.profane_words.join(', '),
+      suggestion: NOTIFICATION_MESSAGES.RECOMMEND_EDIT,
+      spans: result.spans,
+      threshold: cutoff
+    }];
+  }
+};
+
+const sentiment: Detector = {
+  name: 'sentiment',
+  description: 'Strongly negative tone',
+  flag_types: ['negative_sentiment'],
+  toggle: 'enable_sentiment_analysis',
+  async check({ request, language, threshold, memo }) {
+    const result = await memo('sentiment', () => sentiment_analyzer.analyze(request.content, language.language));
+    // Compared as magnitude: a threshold of 0.3 flags a comparative score below -0.3
+    const cutoff = threshold();
+    if (-result.comparative <= cutoff) return [];
+
+    return [{
+      type: 'negative_sentiment',
+      severity: SeverityLevel.LOW,
+      confidence: Math.abs(result.comparative),
+      description: NOTIFICATION_MESSAGES.NEGATIVE_SENTIMENT,
+      suggestion: NOTIFICATION_MESSAGES.RECOMMEND_REVIEW,
+      threshold: cutoff,
+      spans: sort_spans(
+        [...new Set(result.negative)].flatMap(word =>
+          // Word boundaries don't exist in unspaced scripts such as Japanese
+          language.language === 'ja' ? find_phrase_spans(request.content, word) : find_word_spans(request.content, word)
+        )
+      )
+    }];
+  }
+};
+
+interface ToxicityScore {
+  result: ToxicityCheckResult;
+  source: ScoreSource;
+}
+
+// Content is scored once however many platforms it is moderated for; a cross-post sends the model
+// its first platform, and each platform applies its own thresholds. When the model can't answer,
+// the lexicon scores the content instead.
+function score_toxicity({ request, normalized, language, memo }: DetectorInput): Promise<ToxicityScore> {
+  const classifier = toxicity_classifier;
+  const lexicon = async (source: ScoreSource): Promise<ToxicityScore> => ({
+    result: await toxicity_detector.check(request.content, normalized, language.language),
+    source
+  });
+
+  if (!classifier) {
+    return memo('toxicity', () => lexicon(ScoreSource.LEXICON));
+  }
+  return memo('toxicity', async () => {
+    try {
+      const result = await classifier.score(request.content, request.platform, language.language);
+      return { result, source: ScoreSource.CLASSIFIER };
+    } catch (error) {
+      // The classifier has logged why
+      return lexicon(ScoreSource.FALLBACK);
+    }
+  });
+}
+
+// Each toxicity category is its own detector with its own toggle; the scoring runs once for all of them
+function toxicity_category(options: {
+  category: string;
+  type: string;
+  description: string;
+  toggle: keyof ModerationConfig;
+  severity: SeverityLevel;
+  message: string;
+}): Detector {
+  return {
+    name: options.type,
+    description: options.description,
+    flag_types: [options.type],
+    toggle: options.toggle,
+    async check(input) {
+      const { result, source } = await score_toxicity(input);
+      input.report_source(source);
+      const score = result.categories[options.category] || 0;
+      const cutoff = input.threshold();
+      if (score <= cutoff) return [];
+
+      const spans = result.spans.filter(span => span.category === options.category);
+      return [{
+        type: options.type,
+        severity: options.severity,
+        confidence: score,
+        description: options.message,
+        flagged_text: spans.map(span => span.text).join(', ') || undefined,
+        suggestion: NOTIFICATION_MESSAGES.RECOMMEND_REPLACE,
+        spans,
+        threshold: cutoff
+      }];
+    }
+  };
+}
+
+const spam: Detector = {
+  name: 'spam',
+  description: 'Promotional and spam-like content',
+  flag_types: ['spam'],
+  toggle: 'enable_spam_detection',
+  async check({ request, normalized, language, threshold, memo }) {
+    const result = await memo('spam', () => spam_detector.check(request.content, normalized, language.language));
+    const cutoff = threshold();
+    if (result.spam_score <= cutoff) return [];
+
+    return [{
+      type: 'spam',
+      severity: SeverityLevel.MEDIUM,
+      confidence: result.spam_score,
+      description: NOTIFICATION_MESSAGES.SPAM_DETECTED,
+      suggestion: NOTIFICATION_MESSAGES.RECOMMEND_EDIT,
+      spans: result.spans,
+      threshold: cutoff
+    }];
+  }
+};
+
+const personal_info: Detector = {
+  name: 'personal_info',
+  description: 'Emails, phone numbers, card numbers and other personal information',
+  flag_types: ['personal_info'],
+  toggle: 'enable_personal_info_detection',
+  async check({ request, threshold, memo }) {
+    const cutoff = threshold();
+    // Which matches survive overlap resolution depends on the threshold, so results are kept per threshold
+    const result = await memo(`personal_info:${cutoff}`, () => personal_info_detector.check(request.content, cutoff));
+
+    // One flag per kind of personal info, so an email and a card number are reported separately
+    return result.info_types.map((info_type): ModerationFlag => {
+      const findings = result.findings.filter(finding => finding.type === info_type);
+      return {
+        type: 'personal_info',
+        severity: SeverityLevel.HIGH,
+        confidence: Math.max(...findings.map(finding => finding.confidence)),
+        description: `${NOTIFICATION_MESSAGES.PERSONAL_INFO_DETECTED} (${info_type})`,
+        flagged_text: [...new Set(findings.map(finding => finding.text))].join(', '),
+        suggestion: NOTIFICATION_MESSAGES.RECOMMEND_EDIT,
+        spans: result.spans.filter(span => span.category === info_type),
+        threshold: cutoff
+      };
+    });
+  }
+};
+
+const secret: Detector = {
+  name: 'secret',
+  description: 'Leaked credentials, keys and tokens',
+  flag_types: ['secret'],
+  toggle: 'enable_secret_detection',
+  async check({ request, threshold, memo }) {
+    const result = await memo('secret', () => secret_detector.check(request.content));
+    const cutoff = threshold();
+    const flags: ModerationFlag[] = [];
+
+    for (const secret_type of result.secret_types) {
+      const findings = result.findings.filter(finding => finding.type === secret_type && finding.confidence >= cutoff);
+      if (findings.length === 0) continue;
+
+      flags.push({
+        type: 'secret',
+        severity: SeverityLevel.CRITICAL,
+        confidence: Math.max(...findings.map(finding => finding.confidence)),
+        description: `${NOTIFICATION_MESSAGES.SECRET_DETECTED} (${secret_type})`,
+        // Masked, spans included, so responses and the flags stored with them never repeat the credential
+        flagged_text: findings.map(finding => secret_detector.mask_secret(finding.text)).join(', '),
+        suggestion: NOTIFICATION_MESSAGES.RECOMMEND_ROTATE_SECRET,
+        spans: result.spans
+          .filter(span => findings.some(finding => finding.start === span.start && finding.end === span.end))
+          .map(span => ({ ...span, text: secret_detector.mask_secret(span.text) })),
+        threshold: cutoff
+      });
+    }
+
+    return flags;
+  }
+};
+
+// Registration order is flag order in responses
+export const BUILTIN_DETECTORS: Detector[] = [
+  profanity,
+  sentiment,
+  toxicity_category({
+    category: 'general_toxicity',
+    type: 'toxicity',
+    description: 'Insults and abuse',
+    toggle: 'enable_toxicity_detection',
+    severity: SeverityLevel.HIGH,
+    message: NOTIFICATION_MESSAGES.TOXICITY_DETECTED
+  }),
+  toxicity_category({
+    category: 'hate_speech',
+    type: 'hate_speech',
+    description: 'Hate speech against protected groups',
+    toggle: 'enable_hate_speech_detection',
+    severity: SeverityLevel.HIGH,
+    message: NOTIFICATION_MESSAGES.HATE_SPEECH_DETECTED
+  }),
+  toxicity_category({
+    // Threats of violence are never allowed through
+    category: 'violence',
+    type: 'violence',
+    description: 'Threats and incitement to violence',
+    toggle: 'enable_violence_detection',
+    severity: SeverityLevel.CRITICAL,
+    message: NOTIFICATION_MESSAGES.VIOLENCE_DETECTED
+  }),
+  toxicity_category({
+    category: 'sexual_content',
+    type: 'sexual_content',
+    description: 'Sexual content',
+    toggle: 'enable_sexual_content_detection',
+    severity: SeverityLevel.MEDIUM,
+    message: NOTIFICATION_MESSAGES.SEXUAL_CONTENT_DETECTED
+  }),
+  spam,
+  personal_info,
+  secret
+];
@@ -0,0 +1,46 @@
+import { CircuitBreakerConfig, CircuitBreakerStatus, CircuitState } from '../types/content_moderation';
+
+// Stops calling a failing dependency for a while. After reset_ms one trial call is let
+// through: success closes the circuit again, failure keeps it open for another reset_ms.
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutive_failures = 0;
+  private opened_at = 0;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  // Whether a call may go ahead; in the half-open state only the first caller gets the trial
+  allow(): boolean {
+    if (this.state === CircuitState.CLOSED) return true;
+
+    if (this.state === CircuitState.OPEN && Date.now() - this.opened_at >= this.config.reset_ms) {
+      this.state = CircuitState.HALF_OPEN;
+      return true;
+    }
+    return false;
+  }
+
+  record_success(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutive_failures = 0;
+  }
+
+  record_failure(): void {
+    this.consecutive_failures++;
+    if (this.state === CircuitState.HALF_OPEN || this.consecutive_failures >= this.config.failure_threshold) {
+      this.state = CircuitState.OPEN;
+      this.opened_at = Date.now();
+    }
+  }
+
+  status(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutive_failures,
+      opened_at: this.state === CircuitState.CLOSED ? undefined : new Date(this.opened_at).toISOString()
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  ConfigDiffEntry,
+  ConfigVersion,
+  ConfigVersionSummary,
+  ModerationConfig
+} from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { clone, read_json_file, write_json_file } from '../utils/json_file';
+
+interface ConfigStoreFile<T> {
+  versions: ConfigVersion<T>[];
+}
+
+// Numbered versions of the base configuration, or of one tenant's overrides
+export class ConfigStore<T extends object = ModerationConfig> {
+  private file_path: string;
+  private versions: ConfigVersion<T>[];
+
+  constructor(file_path: string, initial_config: T) {
+    this.file_path = file_path;
+    this.versions = this.load();
+
+    // Seed the store so there is always a current version to report
+    if (this.versions.length === 0) {
+      this.save(initial_config, 'system', 'Initial configuration');
+    }
+  }
+
+  private load(): ConfigVersion<T>[] {
+    const data = read_json_file<ConfigStoreFile<T>>(this.file_path, { versions: [] });
+    return Array.isArray(data.versions) ? data.versions : [];
+  }
+
+  private persist(): void {
+    const data: ConfigStoreFile<T> = { versions: this.versions };
+    write_json_file(this.file_path, data);
+  }
+
+  get_current(): ConfigVersion<T> {
+    return clone(this.versions[this.versions.length - 1]);
+  }
+
+  get_version(version: number): ConfigVersion<T> | undefined {
+    const found = this.versions.find(entry => entry.version === version);
+    return found ? clone(found) : undefined;
+  }
+
+  list_versions(): ConfigVersionSummary[] {
+    return this.versions.map(({ config, ...summary }) => ({ ...summary }));
+  }
+
+  save(config: T, author: string, comment?: string): ConfigVersion<T> {
+    const previous = this.versions[this.versions.length - 1];
+    const entry: ConfigVersion<T> = {
+      version: previous ? previous.version + 1 : 1,
+      config: clone(config),
+      author,
+      comment,
+      created_at: new Date().toISOString()
+    };
+
+    this.versions.push(entry);
+    try {
+      this.persist();
+    } catch (error) {
+      // Keep the history in step with the file
+      this.versions.pop();
+      throw error;
+    }
+    return clone(entry);
+  }
+
+  rollback(version: number, author: string): ConfigVersion<T> {
+    const target = this.get_version(version);
+    if (!target) {
+      throw new Error(NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND);
+    }
+
+    return this.save(target.config, author, `Rollback to version ${version}`);
+  }
+
+  diff(from_version: number, to_version: number): ConfigDiffEntry[] {
+    const from = this.get_version(from_version);
+    const to = this.get_version(to_version);
+    if (!from || !to) {
+      throw new Error(NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND);
+    }
+
+    const changes: ConfigDiffEntry[] = [];
+    diff_values('', from.config, to.config, changes);
+    return changes;
+  }
+}
+
+function is_plain_object(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Arrays of objects with ids (rules, for example) are diffed by id instead of by position
+function is_keyed_array(value: unknown): value is Array<{ id: string }> {
+  return Array.isArray(value) && value.every(item => is_plain_object(item) && typeof item.id === 'string');
+}
+
+function diff_values(base_path: string, from: unknown, to: unknown, changes: ConfigDiffEntry[]): void {
+  if (JSON.stringify(from) === JSON.stringify(to)) return;
+
+  if (is_plain_object(from) && is_plain_object(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of keys) {
+      const key_path = base_path ? `${base_path}.${key}` : key;
+      if (!(key in from)) {
+        changes.push({ path: key_path, change: 'added', to: to[key] });
+      } else if (!(key in to)) {
+        changes.push({ path: key_path, change: 'removed', from: from[key] });
+      } else {
+        diff_values(key_path, from[key], to[key], changes);
+      }
+    }
+    return;
+  }
+
+  if (is_keyed_array(from) && is_keyed_array(to)) {
+    const from_items = new Map(from.map(item => [item.id, item]));
+    const to_items = new Map(to.map(item => [item.id, item]));
+
+    for (const [id, item] of from_items) {
+      const item_path = `${base_path}[${id}]`;
+      if (!to_items.has(id)) {
+        changes.push({ path: item_path, change: 'removed', from: item });
+      } else {
+        diff_values(item_path, item, to_items.get(id), changes);
+      }
+    }
+
+    for (const [id, item] of to_items) {
+      if (!from_items.has(id)) {
+        changes.push({ path: `${base_path}[${id}]`, change: 'added', to: item });
+      }
+    }
+    return;
+  }
+
+  changes.push({ path: base_path, change: 'changed', from, to });
+}
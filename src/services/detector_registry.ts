@@ -0,0 +1,218 @@
+import path from 'path';
+import {
+  ContentModerationRequest,
+  DetectorDescriptor,
+  DetectorSettingSchema,
+  DetectorSettings,
+  LanguageDetectionResult,
+  ModerationConfig,
+  ModerationFlag,
+  ScoreSource
+} from '../types/content_moderation';
+import { NormalizedText } from '../utils/text_normalizer';
+import { BUILTIN_DETECTORS } from './builtin_detectors';
+
+const DETECTOR_NAME_PATTERN = /^[a-z0-9_]+$/;
+
+// What a detector sees when it checks one request on one platform
+export interface DetectorInput {
+  request: ContentModerationRequest;
+  normalized: NormalizedText;
+  language: LanguageDetectionResult;
+  settings: DetectorSettings; // This detector's settings with defaults filled in
+  // The cutoff resolved for this platform; defaults to the detector's own threshold
+  threshold(name?: string): number;
+  // Work that doesn't depend on the platform runs once per content and is shared
+  // by every platform (and every detector) that asks for the same key
+  memo<T>(key: string, compute: () => Promise<T>): Promise<T>;
+  // For detectors that can score more than one way: which one produced this result
+  report_source(source: ScoreSource): void;
+}
+
+export interface Detector {
+  name: string;
+  description: string;
+  flag_types: string[];
+  thresholds?: string[]; // Threshold names the detector reads; defaults to its name
+  settings?: Record<string, DetectorSettingSchema>;
+  // Built-in detectors keep their enable_* key; others are switched with config.detectors.<name>.enabled
+  toggle?: keyof ModerationConfig;
+  enabled_by_default?: boolean;
+  check(input: DetectorInput): Promise<ModerationFlag[]>;
+}
+
+// Shape of a detector module listed in DETECTOR_MODULES
+interface DetectorModule {
+  register?: (registry: DetectorRegistry) => void;
+  detectors?: Detector[];
+}
+
+export class DetectorRegistry {
+  private detectors = new Map<string, Detector>();
+  private built_in = new Set<string>();
+
+  register(detector: Detector, built_in: boolean = false): void {
+    if (typeof detector?.name !== 'string' || !DETECTOR_NAME_PATTERN.test(detector.name)) {
+      throw new Error(`Detector names must only contain lowercase letters, digits or "_": ${detector?.name}`);
+    }
+    if (typeof detector.check !== 'function') {
+      throw new Error(`Detector ${detector.name} has no check function`);
+    }
+    if (this.detectors.has(detector.name)) {
+      throw new Error(`Detector ${detector.name} is already registered`);
+    }
+
+    this.detectors.set(detector.name, detector);
+    if (built_in) this.built_in.add(detector.name);
+  }
+
+  get(name: string): Detector | undefined {
+    return this.detectors.get(name);
+  }
+
+  // In registration order, which is also the order their flags are reported in
+  list(): Detector[] {
+    return [...this.detectors.values()];
+  }
+
+  threshold_names(): string[] {
+    return [...new Set(this.list().flatMap(detector => thresholds_of(detector)))];
+  }
+
+  is_enabled(detector: Detector, config: ModerationConfig): boolean {
+    if (detector.toggle) {
+      return config[detector.toggle] === true;
+    }
+    const enabled = config.detectors?.[detector.name]?.enabled;
+    return typeof enabled === 'boolean' ? enabled : detector.enabled_by_default ?? true;
+  }
+
+  resolve_settings(detector: Detector, config: ModerationConfig): DetectorSettings {
+    const settings: DetectorSettings = {};
+    for (const [key, schema] of Object.entries(detector.settings || {})) {
+      if (schema.default !== undefined) settings[key] = schema.default;
+    }
+    const { enabled: _enabled, ...configured } = config.detectors?.[detector.name] || {};
+    return { ...settings, ...configured };
+  }
+
+  // Every registered detector's effective settings, in the form config.detectors accepts
+  effective_settings(config: ModerationConfig): Record<string, DetectorSettings> {
+    const result: Record<string, DetectorSettings> = {};
+    for (const detector of this.list()) {
+      result[detector.name] = {
+        ...(detector.toggle ? {} : { enabled: this.is_enabled(detector, config) }),
+        ...this.resolve_settings(detector, config)
+      };
+    }
+    return result;
+  }
+
+  describe(config: ModerationConfig): DetectorDescriptor[] {
+    return this.list().map(detector => ({
+      name: detector.name,
+      description: detector.description,
+      built_in: this.built_in.has(detector.name),
+      enabled: this.is_enabled(detector, config),
+      toggle: detector.toggle,
+      flag_types: detector.flag_types,
+      thresholds: thresholds_of(detector),
+      settings: detector.settings || {}
+    }));
+  }
+
+  validate_settings(detectors: unknown): string[] {
+    if (!is_object(detectors)) {
+      return ['detectors must be an object'];
+    }
+
+    const errors: string[] = [];
+    for (const [name, settings] of Object.entries(detectors)) {
+      const path = `detectors.${name}`;
+      const detector = this.detectors.get(name);
+      if (!detector) {
+        errors.push(`${path}: unknown detector (expected one of: ${[...this.detectors.keys()].join(', ')})`);
+        continue;
+      }
+      if (!is_object(settings)) {
+        errors.push(`${path} must be an object`);
+        continue;
+      }
+
+      for (const [key, value] of Object.entries(settings)) {
+        if (key === 'enabled') {
+          if (detector.toggle) {
+            errors.push(`${path}.enabled: use ${detector.toggle} to switch this detector`);
+          } else if (typeof value !== 'boolean') {
+            errors.push(`${path}.enabled must be a boolean`);
+          }
+          continue;
+        }
+
+        const schema = detector.settings?.[key];
+        if (!schema) {
+          errors.push(`${path}: unknown setting ${key}`);
+          continue;
+        }
+        const error = validate_setting(value, schema);
+        if (error) errors.push(`${path}.${key} ${error}`);
+      }
+    }
+
+    return errors;
+  }
+}
+
+// Loads in-house detector modules by path (relative to the working directory) or package name.
+// A module either exports register(registry) or a detectors array.
+export function load_detector_modules(registry: DetectorRegistry, specifiers: string[]): void {
+  for (const specifier of specifiers) {
+    const resolved = specifier.startsWith('.') || path.isAbsolute(specifier) ? path.resolve(specifier) : specifier;
+    const detector_module = require(resolved) as DetectorModule;
+
+    if (typeof detector_module.register === 'function') {
+      detector_module.register(registry);
+    } else if (Array.isArray(detector_module.detectors)) {
+      detector_module.detectors.forEach(detector => registry.register(detector));
+    } else {
+      throw new Error(`Detector module ${specifier} exports neither register nor detectors`);
+    }
+  }
+}
+
+// DETECTOR_MODULES is a comma-separated list
+export function parse_module_list(value: string | undefined): string[] {
+  return (value || '').split(',').map(specifier => specifier.trim()).filter(specifier => specifier.length > 0);
+}
+
+function thresholds_of(detector: Detector): string[] {
+  return detector.thresholds && detector.thresholds.length > 0 ? detector.thresholds : [detector.name];
+}
+
+function validate_setting(value: unknown, schema: DetectorSettingSchema): string | undefined {
+  switch (schema.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'must be a boolean';
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (schema.min !== undefined && value < schema.min) return `must be at least ${schema.min}`;
+      if (schema.max !== undefined && value > schema.max) return `must be at most ${schema.max}`;
+      return undefined;
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      if (schema.values && !schema.values.includes(value)) return `must be one of: ${schema.values.join(', ')}`;
+      return undefined;
+    case 'string_array':
+      return Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : 'must be an array of strings';
+    default:
+      return undefined;
+  }
+}
+
+function is_object(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The registry every engine uses unless given another; built-ins first, modules are added at startup
+export const detector_registry = new DetectorRegistry();
+BUILTIN_DETECTORS.forEach(detector => detector_registry.register(detector, true));
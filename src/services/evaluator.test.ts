@@ -0,0 +1,147 @@
+import path from 'path';
+import {
+  ContentModerationRequest,
+  ContentModerationResponse,
+  ContentType,
+  EvaluationSample,
+  ModerationFlag,
+  PlatformType,
+  SeverityLevel
+} from '../types/content_moderation';
+import { ModerationEngine } from './moderation_engine';
+import { Evaluator } from './evaluator';
+import { DEFAULT_MODERATION_CONFIG } from '../constants/default_config';
+import { read_dataset } from '../utils/dataset';
+
+function sample(id: string, labels: string[]): EvaluationSample {
+  return { id, labels, content: id, content_type: ContentType.TEXT, platform: PlatformType.TWITTER };
+}
+
+function flag(type: string, confidence: number, category?: string): ModerationFlag {
+  return {
+    type,
+    severity: SeverityLevel.MEDIUM,
+    confidence,
+    description: type,
+    spans: category ? [{ start: 0, end: 1, text: 'x', pattern: 'test', category }] : []
+  };
+}
+
+// Answers each sample, looked up by its content, with the given flags, or fails when there are none listed
+function fake_engine(flags_by_content: Record<string, ModerationFlag[]>): ModerationEngine {
+  return {
+    async moderate_content(request: ContentModerationRequest): Promise<ContentModerationResponse> {
+      const flags = flags_by_content[request.content];
+      if (!flags) throw new Error(`No answer for ${request.content}`);
+      return { is_flagged: flags.length > 0, flags, confidence_score: 0.5 } as ContentModerationResponse;
+    }
+  } as unknown as ModerationEngine;
+}
+
+describe('Evaluator', () => {
+  it('counts the confusion matrix and derives precision, recall and f1 from it', async () => {
+    const evaluator = new Evaluator([
+      sample('tp', ['spam']),
+      sample('fn', ['spam']),
+      sample('fp', []),
+      sample('tn', [])
+    ]);
+
+    const report = await evaluator.evaluate(fake_engine({
+      tp: [flag('spam', 0.9)],
+      fn: [],
+      fp: [flag('spam', 0.7)],
+      tn: []
+    }));
+
+    expect(report.flagged).toEqual({
+      label: 'flagged',
+      support: 2,
+      true_positives: 1,
+      false_positives: 1,
+      false_negatives: 1,
+      true_negatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+      f1: 0.5
+    });
+    expect(report.flag_types.map(metrics => metrics.label)).toEqual(['spam']);
+    expect(report.flag_types[0].f1).toBe(0.5);
+  });
+
+  it('reports 0 instead of dividing by zero when nothing is predicted or expected', async () => {
+    const evaluator = new Evaluator([sample('missed', ['toxicity']), sample('clean', [])]);
+    const report = await evaluator.evaluate(fake_engine({ missed: [], clean: [] }));
+
+    expect(report.flag_types[0]).toMatchObject({ precision: 0, recall: 0, f1: 0 });
+  });
+
+  it('treats a category label as its flag type too, and ignores flag types the dataset does not use', async () => {
+    const evaluator = new Evaluator([sample('email', ['personal_info:email'])]);
+    const report = await evaluator.evaluate(fake_engine({
+      email: [flag('personal_info', 0.8, 'email'), flag('length_limit', 1)]
+    }));
+
+    expect(report.flag_types.map(metrics => metrics.label)).toEqual(['personal_info']);
+    expect(report.flag_types[0].true_positives).toBe(1);
+    expect(report.categories[0]).toMatchObject({ label: 'personal_info:email', true_positives: 1, f1: 1 });
+    expect(report.worst_false_positives).toEqual([]);
+  });
+
+  it('lists samples that fail to moderate without counting them', async () => {
+    const evaluator = new Evaluator([sample('ok', []), sample('broken', ['spam'])]);
+    const report = await evaluator.evaluate(fake_engine({ ok: [] }));
+
+    expect(report.total).toBe(2);
+    expect(report.evaluated).toBe(1);
+    expect(report.failed).toEqual([{ sample_id: 'broken', details: 'No answer for broken' }]);
+    expect(report.flagged.support).toBe(0);
+  });
+
+  it('orders false positives by confidence', async () => {
+    const evaluator = new Evaluator([sample('low', []), sample('high', []), sample('spam', ['spam'])]);
+    const report = await evaluator.evaluate(fake_engine({
+      low: [flag('spam', 0.6)],
+      high: [flag('spam', 0.95)],
+      spam: [flag('spam', 0.9)]
+    }));
+
+    expect(report.worst_false_positives.map(mistake => mistake.sample_id)).toEqual(['high', 'low']);
+  });
+
+  it('compares two engines and lists the samples each change fixed or broke', async () => {
+    const evaluator = new Evaluator([sample('a', ['spam']), sample('b', [])]);
+    const comparison = await evaluator.compare(
+      fake_engine({ a: [], b: [] }),
+      fake_engine({ a: [flag('spam', 0.9)], b: [flag('spam', 0.9)] })
+    );
+
+    expect(comparison.fixed).toEqual(['a']);
+    expect(comparison.regressed).toEqual(['b']);
+    expect(comparison.deltas.find(delta => delta.label === 'spam')).toEqual({ label: 'spam', precision: 0.5, recall: 1, f1: 0.667 });
+  });
+});
+
+// Guards detection quality on the bundled dataset: every sample is expected to be caught
+describe('moderation_sample dataset', () => {
+  const samples = read_dataset(path.join(__dirname, '../../datasets/moderation_sample.jsonl'), {
+    platform: PlatformType.FACEBOOK,
+    content_type: ContentType.TEXT
+  });
+
+  it('keeps the default configuration at or above its recorded scores', async () => {
+    const report = await new Evaluator(samples).evaluate(new ModerationEngine(DEFAULT_MODERATION_CONFIG));
+
+    expect(report.failed).toEqual([]);
+    expect(report.flagged.f1).toBe(1);
+    expect(report.flagged.false_positives).toBe(0);
+    const with_false_positives = [...report.flag_types, ...report.categories].filter(metrics => metrics.false_positives > 0);
+    expect(with_false_positives.map(metrics => metrics.label)).toEqual([]);
+  });
+
+  it('misses no samples', async () => {
+    const report = await new Evaluator(samples, samples.length).evaluate(new ModerationEngine(DEFAULT_MODERATION_CONFIG));
+
+    expect(report.worst_false_negatives.map(mistake => mistake.sample_id)).toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  ConfusionMatrix,
+  ContentModerationResponse,
+  EvaluationComparison,
+  EvaluationMistake,
+  EvaluationReport,
+  EvaluationSample,
+  LabelMetrics,
+  LabelMetricsDelta
+} from '../types/content_moderation';
+import { ModerationEngine } from './moderation_engine';
+
+interface Prediction {
+  sample: EvaluationSample;
+  response?: ContentModerationResponse;
+  error?: string;
+  // Only the labels the dataset uses, each with the highest confidence a flag gave it
+  predicted: Map<string, number>;
+}
+
+const FLAGGED_LABEL = 'flagged';
+
+// Scores engines against a labeled dataset. Metrics cover the flag types and categories that
+// appear in the dataset's labels, so a dataset about spam isn't penalized for length limits.
+export class Evaluator {
+  private samples: EvaluationSample[];
+  private flag_types: string[];
+  private categories: string[];
+  private top: number;
+
+  constructor(samples: EvaluationSample[], top: number = 10) {
+    this.samples = samples;
+    this.top = top;
+
+    const labels = new Set(samples.flatMap(sample => sample.labels));
+    this.categories = [...labels].filter(label => label.includes(':')).sort();
+    this.flag_types = [...new Set([...labels].map(label => label.split(':')[0]))].sort();
+  }
+
+  async evaluate(engine: ModerationEngine): Promise<EvaluationReport> {
+    const start_time = Date.now();
+    const predictions = await this.predict(engine);
+    return this.report(predictions, Date.now() - start_time);
+  }
+
+  async compare(baseline: ModerationEngine, candidate: ModerationEngine): Promise<EvaluationComparison> {
+    let start_time = Date.now();
+    const baseline_predictions = await this.predict(baseline);
+    const baseline_report = this.report(baseline_predictions, Date.now() - start_time);
+
+    start_time = Date.now();
+    const candidate_predictions = await this.predict(candidate);
+    const candidate_report = this.report(candidate_predictions, Date.now() - start_time);
+
+    const fixed: string[] = [];
+    const regressed: string[] = [];
+    baseline_predictions.forEach((before, index) => {
+      const after = candidate_predictions[index];
+      if (before.error || after.error) return;
+
+      const was_correct = this.is_correct(before);
+      const is_correct = this.is_correct(after);
+      if (!was_correct && is_correct) fixed.push(before.sample.id);
+      if (was_correct && !is_correct) regressed.push(before.sample.id);
+    });
+
+    return {
+      baseline: baseline_report,
+      candidate: candidate_report,
+      deltas: metrics_deltas(
+        [baseline_report.flagged, ...baseline_report.flag_types, ...baseline_report.categories],
+        [candidate_report.flagged, ...candidate_report.flag_types, ...candidate_report.categories]
+      ),
+      fixed,
+      regressed
+    };
+  }
+
+  // Sequential so the numbers don't depend on scheduling and memory stays flat on large datasets
+  private async predict(engine: ModerationEngine): Promise<Prediction[]> {
+    const predictions: Prediction[] = [];
+
+    for (const sample of this.samples) {
+      const { id: _id, labels: _labels, ...request } = sample;
+      try {
+        const response = await engine.moderate_content(request);
+        predictions.push({ sample, response, predicted: this.predicted_labels(response) });
+      } catch (error) {
+        predictions.push({ sample, error: error instanceof Error ? error.message : 'Unknown error', predicted: new Map() });
+      }
+    }
+
+    return predictions;
+  }
+
+  private predicted_labels(response: ContentModerationResponse): Map<string, number> {
+    const predicted = new Map<string, number>();
+    const add = (label: string, confidence: number): void => {
+      predicted.set(label, Math.max(predicted.get(label) ?? 0, confidence));
+    };
+
+    for (const flag of response.flags) {
+      if (this.flag_types.includes(flag.type)) {
+        add(flag.type, flag.confidence);
+      }
+      for (const span of flag.spans || []) {
+        const category = `${flag.type}:${span.category}`;
+        if (span.category && this.categories.includes(category)) {
+          add(category, flag.confidence);
+        }
+      }
+    }
+
+    return predicted;
+  }
+
+  private report(predictions: Prediction[], processing_time_ms: number): EvaluationReport {
+    const evaluated = predictions.filter(prediction => !prediction.error);
+
+    return {
+      total: predictions.length,
+      evaluated: evaluated.length,
+      failed: predictions
+        .filter(prediction => prediction.error)
+        .map(prediction => ({ sample_id: prediction.sample.id, details: prediction.error as string })),
+      flagged: label_metrics(
+        FLAGGED_LABEL,
+        evaluated.map(prediction => ({
+          expected: prediction.sample.labels.length > 0,
+          predicted: (prediction.response as ContentModerationResponse).is_flagged
+        }))
+      ),
+      flag_types: this.flag_types.map(label => this.metrics_for(label, evaluated)),
+      categories: this.categories.map(label => this.metrics_for(label, evaluated)),
+      worst_false_positives: this.false_positives(evaluated),
+      worst_false_negatives: this.false_negatives(evaluated),
+      processing_time_ms
+    };
+  }
+
+  private metrics_for(label: string, predictions: Prediction[]): LabelMetrics {
+    return label_metrics(label, predictions.map(prediction => ({
+      expected: this.expected_labels(prediction.sample).has(label),
+      predicted: prediction.predicted.has(label)
+    })));
+  }
+
+  // A category label implies its flag type: "personal_info:email" is also "personal_info"
+  private expected_labels(sample: EvaluationSample): Set<string> {
+    return new Set(sample.labels.flatMap(label => [label, label.split(':')[0]]));
+  }
+
+  private is_correct(prediction: Prediction): boolean {
+    const expected = this.expected_labels(prediction.sample);
+    return expected.size === prediction.predicted.size && [...expected].every(label => prediction.predicted.has(label));
+  }
+
+  // Worst first: the engine was most confident about a label the sample doesn't have
+  private false_positives(predictions: Prediction[]): EvaluationMistake[] {
+    const mistakes: EvaluationMistake[] = [];
+
+    for (const prediction of predictions) {
+      const expected = this.expected_labels(prediction.sample);
+      const wrong_labels = [...prediction.predicted.keys()].filter(label => !expected.has(label));
+      if (wrong_labels.length === 0) continue;
+
+      mistakes.push(this.mistake(prediction, wrong_labels, Math.max(...wrong_labels.map(label => prediction.predicted.get(label) as number))));
+    }
+
+    return mistakes.sort((a, b) => b.confidence - a.confidence).slice(0, this.top);
+  }
+
+  // Worst first: the most missed labels, then the response most confident in its verdict
+  private false_negatives(predictions: Prediction[]): EvaluationMistake[] {
+    const mistakes: EvaluationMistake[] = [];
+
+    for (const prediction of predictions) {
+      const wrong_labels = [...this.expected_labels(prediction.sample)].filter(label => !prediction.predicted.has(label));
+      if (wrong_labels.length === 0) continue;
+
+      mistakes.push(this.mistake(prediction, wrong_labels, (prediction.response as ContentModerationResponse).confidence_score));
+    }
+
+    return mistakes
+      .sort((a, b) => b.wrong_labels.length - a.wrong_labels.length || b.confidence - a.confidence)
+      .slice(0, this.top);
+  }
+
+  private mistake(prediction: Prediction, wrong_labels: string[], confidence: number): EvaluationMistake {
+    return {
+      sample_id: prediction.sample.id,
+      content: prediction.sample.content,
+      labels: prediction.sample.labels,
+      predicted: [...prediction.predicted.keys()].sort(),
+      wrong_labels: wrong_labels.sort(),
+      confidence: round(confidence)
+    };
+  }
+}
+
+function label_metrics(label: string, outcomes: Array<{ expected: boolean; predicted: boolean }>): LabelMetrics {
+  const matrix: ConfusionMatrix = { true_positives: 0, false_positives: 0, false_negatives: 0, true_negatives: 0 };
+
+  for (const { expected, predicted } of outcomes) {
+    if (expected && predicted) matrix.true_positives++;
+    else if (!expected && predicted) matrix.false_positives++;
+    else if (expected && !predicted) matrix.false_negatives++;
+    else matrix.true_negatives++;
+  }
+
+  const precision = ratio(matrix.true_positives, matrix.true_positives + matrix.false_positives);
+  const recall = ratio(matrix.true_positives, matrix.true_positives + matrix.false_negatives);
+
+  return {
+    label,
+    support: matrix.true_positives + matrix.false_negatives,
+    ...matrix,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(ratio(2 * precision * recall, precision + recall))
+  };
+}
+
+function metrics_deltas(baseline: LabelMetrics[], candidate: LabelMetrics[]): LabelMetricsDelta[] {
+  return candidate.map(after => {
+    const before = baseline.find(metrics => metrics.label === after.label);
+    return {
+      label: after.label,
+      precision: round(after.precision - (before?.precision ?? 0)),
+      recall: round(after.recall - (before?.recall ?? 0)),
+      f1: round(after.f1 - (before?.f1 ?? 0))
+    };
+  });
+}
+
+// Undefined ratios (nothing predicted, nothing expected) count as 0
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import {
+  ImageBlocklistEntry,
+  ImageBlocklistInput,
+  ImageBlocklistMatch,
+  ImageHashes
+} from '../types/content_moderation';
+import { analyze_image } from '../utils/image';
+import { hamming_distance, is_hash } from '../utils/perceptual_hash';
+import { clone, read_json_file, write_json_file } from '../utils/json_file';
+
+interface ImageBlocklistFile {
+  entries: ImageBlocklistEntry[];
+}
+
+const HASH_KEYS: Array<keyof ImageHashes> = ['phash', 'dhash'];
+
+// Perceptual hashes of known-bad images. Only hashes are kept, never the images themselves.
+export class ImageBlocklist {
+  private file_path: string;
+  private entries: Map<string, ImageBlocklistEntry>;
+
+  constructor(file_path: string) {
+    this.file_path = file_path;
+    this.entries = new Map();
+
+    const data = read_json_file<ImageBlocklistFile>(this.file_path, { entries: [] });
+    for (const entry of data.entries || []) {
+      this.entries.set(entry.id, entry);
+    }
+  }
+
+  private persist(): void {
+    const data: ImageBlocklistFile = { entries: [...this.entries.values()] };
+    write_json_file(this.file_path, data);
+  }
+
+  list(): ImageBlocklistEntry[] {
+    return [...this.entries.values()].map(entry => clone(entry));
+  }
+
+  get(entry_id: string): ImageBlocklistEntry | undefined {
+    const entry = this.entries.get(entry_id);
+    return entry ? clone(entry) : undefined;
+  }
+
+  validate_entry(input: unknown): string[] {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return ['entry must be an object'];
+    }
+
+    const entry = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof entry.label !== 'string' || entry.label.trim().length === 0) {
+      errors.push('label must be a non-empty string');
+    }
+    if (entry.description !== undefined && typeof entry.description !== 'string') {
+      errors.push('description must be a string');
+    }
+
+    if (entry.image !== undefined) {
+      if (entry.phash !== undefined || entry.dhash !== undefined) {
+        errors.push('give either image or hashes, not both');
+      } else if (typeof entry.image !== 'string') {
+        errors.push('image must be a base64 or data URL string');
+      } else {
+        try {
+          if (!analyze_image(entry.image).hashes) errors.push('image must be a JPEG or PNG to be hashed');
+        } catch (error) {
+          errors.push(`image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    } else if (entry.phash === undefined && entry.dhash === undefined) {
+      errors.push('an image, a phash or a dhash is required');
+    }
+
+    for (const key of HASH_KEYS) {
+      if (entry[key] !== undefined && !is_hash(entry[key])) {
+        errors.push(`${key} must be 16 lowercase hex digits`);
+      }
+    }
+
+    return errors;
+  }
+
+  // Expects input that passed validate_entry
+  add(input: ImageBlocklistInput, added_by?: string): ImageBlocklistEntry {
+    const hashes: Partial<ImageHashes> = input.image !== undefined
+      ? analyze_image(input.image).hashes as ImageHashes
+      : { phash: input.phash, dhash: input.dhash };
+
+    const entry: ImageBlocklistEntry = {
+      id: crypto.randomUUID(),
+      label: input.label.trim(),
+      description: input.description,
+      ...hashes,
+      added_by,
+      created_at: new Date().toISOString()
+    };
+
+    this.entries.set(entry.id, entry);
+    this.persist();
+    return clone(entry);
+  }
+
+  remove(entry_id: string): boolean {
+    if (!this.entries.delete(entry_id)) {
+      return false;
+    }
+    this.persist();
+    return true;
+  }
+
+  // The closest entry within max_distance on either hash
+  match(hashes: ImageHashes, max_distance: number): ImageBlocklistMatch | undefined {
+    let best: ImageBlocklistMatch | undefined;
+
+    for (const entry of this.entries.values()) {
+      for (const hash of HASH_KEYS) {
+        const entry_hash = entry[hash];
+        if (!entry_hash) continue;
+
+        const distance = hamming_distance(hashes[hash], entry_hash);
+        if (distance <= max_distance && (!best || distance < best.distance)) {
+          best = { entry: clone(entry), hash, distance };
+        }
+      }
+    }
+
+    return best;
+  }
+}
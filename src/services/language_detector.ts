@@ -0,0 +1,132 @@
+import { LanguageDetectionResult } from '../types/content_moderation';
+import { SUPPORTED_LANGUAGES } from '../constants/lexicons';
+
+// Scripts that identify a language (or language family) on their own
+const SCRIPT_LANGUAGES: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'zh', pattern: /\p{Script=Han}/gu },
+  { language: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { language: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu },
+  { language: 'hi', pattern: /\p{Script=Devanagari}/gu }
+];
+
+// Frequent function words for Latin-script languages
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    'the', 'and', 'is', 'are', 'you', 'to', 'of', 'in', 'that', 'it', 'for', 'this', 'with', 'was', 'be', 'have', 'not', 'on', 'your', 'my', 'we', 'our', 'will', 'just', 'what',
+    'from', 'these', 'those', 'at', 'by', 'or', 'but', 'he', 'she', 'they', 'them', 'his', 'its', 'their', 'there', 'here', 'were', 'been', 'has', 'had',
+    'does', 'did', 'can', 'could', 'would', 'should', 'about', 'up', 'out', 'if', 'all', 'when', 'who', 'how', 'why', 'which', 'than', 'then', 'too',
+    'very', 'really', 'some', 'more', 'now', 'today', 'thanks', 'thank', 'everyone', 'love', 'loving', 'great', 'good', 'day', 'days', 'new', 'get', 'got'
+  ],
+  es: ['de', 'el', 'la', 'los', 'las', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'no', 'te', 'lo', 'muy', 'pero', 'mi', 'su', 'está', 'del', 'al', 'yo', 'eres', 'como', 'más'],
+  pt: ['de', 'o', 'os', 'as', 'que', 'e', 'em', 'um', 'uma', 'é', 'não', 'com', 'para', 'por', 'você', 'muito', 'mas', 'meu', 'do', 'da', 'dos', 'das', 'no', 'na', 'eu', 'isso', 'como', 'mais'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'ein', 'eine', 'zu', 'mit', 'auf', 'für', 'sie', 'es', 'den', 'dem', 'von', 'sehr', 'aber', 'wir', 'auch', 'sind', 'bist'],
+  fr: ['de', 'le', 'la', 'les', 'et', 'est', 'un', 'une', 'je', 'tu', 'vous', 'pas', 'que', 'en', 'des', 'du', 'pour', 'avec', 'ce', 'très', 'mais', 'sur', 'il', 'elle', 'nous', 'sont'],
+  it: ['il', 'la', 'di', 'e', 'che', 'è', 'un', 'una', 'per', 'non', 'sono', 'mi', 'ti', 'con', 'del', 'della', 'ma', 'molto', 'questo', 'io', 'gli', 'le', 'sei', 'anche'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'je', 'van', 'dat', 'met', 'voor', 'op', 'zijn', 'maar', 'ook', 'wij', 'hij', 'heel', 'jij', 'dit']
+};
+
+// Letters that only (or mostly) occur in one of the languages above
+const CHARACTER_HINTS: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'es', pattern: /[ñ¿¡]/g },
+  { language: 'pt', pattern: /[ãõ]/g },
+  { language: 'de', pattern: /[ßäöü]/g }
+];
+
+// A language is only reported with at least this much evidence (a stopword counts 1, a distinctive letter 2)
+const MIN_EVIDENCE = 2;
+
+// ...and with at least this many times the runner-up's evidence; anything closer is undetermined
+const MIN_MARGIN = 2;
+
+export class LanguageDetector {
+  private supported_languages: Set<string>;
+  private stopwords: Map<string, Set<string>>;
+
+  constructor(supported_languages: string[] = SUPPORTED_LANGUAGES) {
+    this.supported_languages = new Set(supported_languages);
+    this.stopwords = new Map(Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)]));
+  }
+
+  detect(content: string): LanguageDetectionResult {
+    const letters = (content.match(/\p{L}/gu) || []).length;
+
+    // Nothing to read, e.g. only emoji, numbers or links
+    if (letters === 0) {
+      return this.result('zxx', 1);
+    }
+
+    const script_result = this.detect_by_script(content, letters);
+    if (script_result) return script_result;
+
+    return this.detect_by_words(content);
+  }
+
+  is_supported(language: string): boolean {
+    return language === 'zxx' || this.supported_languages.has(language);
+  }
+
+  get_supported_languages(): string[] {
+    return [...this.supported_languages];
+  }
+
+  private detect_by_script(content: string, letters: number): LanguageDetectionResult | undefined {
+    let best: { language: string; count: number } | undefined;
+
+    for (const { language, pattern } of SCRIPT_LANGUAGES) {
+      const count = (content.match(pattern) || []).length;
+      if (count > 0 && (!best || count > best.count)) {
+        best = { language, count };
+      }
+    }
+
+    if (!best || best.count / letters < 0.3) return undefined;
+
+    // Japanese mixes kanji with kana; any kana at all means it isn't Chinese
+    if (best.language === 'zh' && /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(content)) {
+      return this.result('ja', Math.min(1, best.count / letters + 0.2));
+    }
+
+    return this.result(best.language, Math.min(1, best.count / letters));
+  }
+
+  private detect_by_words(content: string): LanguageDetectionResult {
+    const words = content.toLowerCase().match(/\p{L}+/gu) || [];
+    const scores = new Map<string, number>();
+
+    for (const [language, stopwords] of this.stopwords) {
+      scores.set(language, words.filter(word => stopwords.has(word)).length);
+    }
+
+    for (const { language, pattern } of CHARACTER_HINTS) {
+      const hints = (content.toLowerCase().match(pattern) || []).length;
+      scores.set(language, (scores.get(language) || 0) + 2 * hints);
+    }
+
+    const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+    const [language, score] = ranked[0];
+    const runner_up = ranked[1][1];
+
+    // Weak or contested evidence goes to a human as undetermined rather than passing as a supported language
+    if (score < MIN_EVIDENCE || score < MIN_MARGIN * runner_up) {
+      return this.result('und', 0);
+    }
+
+    // Share of the evidence that points at the winner, discounted when there is little of it
+    const total = ranked.reduce((sum, [, value]) => sum + value, 0);
+    const confidence = (score / total) * Math.min(1, score / 3);
+    return this.result(language, confidence);
+  }
+
+  private result(language: string, confidence: number): LanguageDetectionResult {
+    return {
+      language,
+      confidence: Math.round(confidence * 100) / 100,
+      supported: this.is_supported(language)
+    };
+  }
+}
@@ -1,40 +1,125 @@
+import crypto from 'crypto';
 import {
+  BatchModerationItem,
+  BatchModerationItemResult,
+  BatchModerationResponse,
+  BatchModerationSummary,
   ContentModerationRequest,
   ContentModerationResponse,
+  DetectorDescriptor,
+  DetectorSettings,
+  ImageAnalysis,
+  LanguageDetectionResult,
   ModerationFlag,
+  MultiPlatformModerationRequest,
+  MultiPlatformModerationResponse,
   SeverityLevel,
   ContentType,
   PlatformType,
   ModerationConfig,
-  SentimentAnalysisResult,
-  ProfanityCheckResult,
-  ToxicityCheckResult
+  LinkType,
+  PlatformProfile,
+  PolicyAction,
+  PolicyClause,
+  PolicyDecision,
+  ReviewQueueConfig,
+  ScoreSource,
+  TranscriptFormat,
+  TranscriptResult
 } from '../types/content_moderation';
-import { NOTIFICATION_MESSAGES } from '../constants/notifications';
-import { ProfanityDetector } from '../services/profanity_detector';
-import { SentimentAnalyzer } from '../services/sentiment_analyzer';
-import { ToxicityDetector } from '../services/toxicity_detector';
-import { SpamDetector } from '../services/spam_detector';
-import { PersonalInfoDetector } from '../services/personal_info_detector';
+import { NOTIFICATION_MESSAGES, ERROR_CODES } from '../constants/notifications';
+import { DEFAULT_PLATFORM_PROFILES } from '../constants/platforms';
+import { DEFAULT_DETECTOR_THRESHOLDS } from '../constants/default_config';
+import { LanguageDetector } from '../services/language_detector';
+import { Detector, DetectorInput, DetectorRegistry, detector_registry } from '../services/detector_registry';
 import { RuleEngine } from '../services/rule_engine';
+import { PolicyEngine, DEFAULT_DECISION_POLICY } from '../services/policy_engine';
+import { ImageBlocklist } from '../services/image_blocklist';
+import { analyze_image } from '../utils/image';
+import { TranscriptCue, find_cue, join_cues, parse_transcript } from '../utils/transcript';
+import { NormalizedText, normalize_text } from '../utils/text_normalizer';
+import {
+  classify_link,
+  count_characters,
+  find_hashtag_spans,
+  find_limit_offset,
+  find_link_spans,
+  find_mention_spans
+} from '../utils/platform_text';
+
+const SEVERITY_SCORES: Record<SeverityLevel, number> = {
+  [SeverityLevel.LOW]: 1,
+  [SeverityLevel.MEDIUM]: 2,
+  [SeverityLevel.HIGH]: 3,
+  [SeverityLevel.CRITICAL]: 4
+};
+
+// By default only the MEDIUM band, which is allowed through with a "please review", is queued
+const DEFAULT_REVIEW_QUEUE_CONFIG: ReviewQueueConfig = {
+  enabled: true,
+  min_severity: SeverityLevel.MEDIUM,
+  max_severity: SeverityLevel.MEDIUM
+};
+
+// Near-copies of a blocklisted image usually differ by a few bits; unrelated images by about 32
+const DEFAULT_IMAGE_MATCH_DISTANCE = 10;
+
+const MAX_CONTENT_LENGTH = 10000;
+
+// Subtitle files and transcripts for VIDEO and AUDIO run far longer than a post
+const MAX_TRANSCRIPT_LENGTH = 200000;
+
+// Detector results for one piece of content, shared by every platform it is moderated for
+interface ContentAnalysis {
+  content: string; // The text to moderate: the content itself, an image's caption, or a transcript's cue text
+  image?: ImageAnalysis;
+  transcript?: TranscriptAnalysis;
+  normalized: NormalizedText;
+  language: LanguageDetectionResult;
+  // Platform-independent detector work, keyed by the name each detector gives it
+  memo: Map<string, Promise<unknown>>;
+}
+
+// The cues are moderated as one text, and flags are traced back to the cues their spans fall in
+interface TranscriptAnalysis {
+  format: TranscriptFormat;
+  cues: TranscriptCue[];
+  starts: number[]; // Where each cue's text starts in the joined text
+}
+
+// Applied after the configured policy; no policy can let a leaked credential through
+const SECRET_GUARD_CLAUSE: PolicyClause = {
+  id: 'builtin_block_secrets',
+  description: 'Leaked credentials are never safe to post',
+  action: PolicyAction.BLOCK,
+  conditions: [{ flag_types: ['secret'] }],
+  enabled: true
+};
 
 export class ModerationEngine {
-  private profanity_detector: ProfanityDetector;
-  private sentiment_analyzer: SentimentAnalyzer;
-  private toxicity_detector: ToxicityDetector;
-  private spam_detector: SpamDetector;
-  private personal_info_detector: PersonalInfoDetector;
+  private detectors: DetectorRegistry;
+  private image_blocklist?: ImageBlocklist;
+  private language_detector: LanguageDetector;
   private rule_engine: RuleEngine;
+  private policy_engine: PolicyEngine;
+  private platform_profiles: Record<string, PlatformProfile>;
   private config: ModerationConfig;
-
-  constructor(config: ModerationConfig) {
+  private config_version: number;
+
+  constructor(
+    config: ModerationConfig,
+    config_version: number = 1,
+    detectors: DetectorRegistry = detector_registry,
+    image_blocklist?: ImageBlocklist
+  ) {
     this.config = config;
-    this.profanity_detector = new ProfanityDetector();
-    this.sentiment_analyzer = new SentimentAnalyzer();
-    this.toxicity_detector = new ToxicityDetector();
-    this.spam_detector = new SpamDetector();
-    this.personal_info_detector = new PersonalInfoDetector();
+    this.config_version = config_version;
+    this.detectors = detectors;
+    this.image_blocklist = image_blocklist;
+    this.language_detector = new LanguageDetector();
     this.rule_engine = new RuleEngine(config.rules);
+    this.policy_engine = new PolicyEngine(config.decision_policy || DEFAULT_DECISION_POLICY);
+    this.platform_profiles = { ...DEFAULT_PLATFORM_PROFILES, ...config.platform_profiles };
   }
 
   async moderate_content(request: ContentModerationRequest): Promise<ContentModerationResponse> {
@@ -44,113 +129,349 @@ export class ModerationEngine {
       // Validate request
       this.validate_request(request);
 
-      const flags: ModerationFlag[] = [];
+      const analysis = await this.analyze_content(request);
+      return await this.build_response(request, analysis, start_time);
 
-      // Run all enabled moderation checks
-      if (this.config.enable_profanity_detection) {
-        const profanity_result = await this.profanity_detector.check(request.content);
-        if (profanity_result.is_profane) {
-          flags.push({
-            type: 'profanity',
-            severity: SeverityLevel.MEDIUM,
-            confidence: 0.9,
-            description: NOTIFICATION_MESSAGES.PROFANITY_DETECTED,
-            flagged_text: profanity_result.profane_words.join(', '),
-            suggestion: NOTIFICATION_MESSAGES.RECOMMEND_EDIT
-          });
-        }
-      }
+    } catch (error) {
+      throw new Error(`${NOTIFICATION_MESSAGES.MODERATION_FAILED}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      if (this.config.enable_sentiment_analysis) {
-        const sentiment_result = await this.sentiment_analyzer.analyze(request.content);
-        if (sentiment_result.comparative < -0.3) {
-          flags.push({
-            type: 'negative_sentiment',
-            severity: SeverityLevel.LOW,
-            confidence: Math.abs(sentiment_result.comparative),
-            description: NOTIFICATION_MESSAGES.NEGATIVE_SENTIMENT,
-            suggestion: NOTIFICATION_MESSAGES.RECOMMEND_REVIEW
-          });
-        }
-      }
+  // Content-level detectors run once; each platform then gets its own thresholds, rules, limits and decision
+  async moderate_for_platforms(request: MultiPlatformModerationRequest): Promise<MultiPlatformModerationResponse> {
+    const start_time = Date.now();
 
-      if (this.config.enable_toxicity_detection) {
-        const toxicity_result = await this.toxicity_detector.check(request.content);
-        if (toxicity_result.is_toxic) {
-          flags.push({
-            type: 'toxicity',
-            severity: SeverityLevel.HIGH,
-            confidence: toxicity_result.toxicity_score,
-            description: NOTIFICATION_MESSAGES.TOXICITY_DETECTED,
-            suggestion: NOTIFICATION_MESSAGES.RECOMMEND_REPLACE
-          });
-        }
+    try {
+      const platforms = [...new Set(request.platforms)];
+      const requests = platforms.map(platform => {
+        const { platforms: _platforms, ...rest } = request;
+        return { ...rest, platform: platform as PlatformType };
+      });
+      requests.forEach(platform_request => this.validate_request(platform_request));
+
+      const analysis = await this.analyze_content(requests[0]);
+      const verdicts: Record<string, ContentModerationResponse> = {};
+      for (const platform_request of requests) {
+        verdicts[platform_request.platform] = await this.build_response(platform_request, analysis, start_time);
       }
 
-      if (this.config.enable_spam_detection) {
-        const spam_result = await this.spam_detector.check(request.content);
-        if (spam_result.is_spam) {
-          flags.push({
-            type: 'spam',
-            severity: SeverityLevel.MEDIUM,
-            confidence: spam_result.spam_score,
-            description: NOTIFICATION_MESSAGES.SPAM_DETECTED,
-            suggestion: NOTIFICATION_MESSAGES.RECOMMEND_EDIT
-          });
+      const results = Object.values(verdicts);
+      return {
+        request_id: crypto.randomUUID(),
+        verdicts,
+        safe_everywhere: results.every(result => result.safe_to_post),
+        unsafe_platforms: platforms.filter(platform => !verdicts[platform].safe_to_post),
+        highest_severity: this.calculate_overall_severity(results.flatMap(result => result.flags)),
+        detected_language: analysis.language.language,
+        processing_time_ms: Date.now() - start_time,
+        config_version: this.config_version
+      };
+
+    } catch (error) {
+      throw new Error(`${NOTIFICATION_MESSAGES.MODERATION_FAILED}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Language is needed by every platform; detector work is memoized as platforms ask for it.
+  // Images are decoded and hashed once, and their caption is the text the detectors see.
+  // Subtitles and timestamped transcripts are split into cues whose text is joined and moderated as one.
+  private async analyze_content(request: ContentModerationRequest): Promise<ContentAnalysis> {
+    const image = request.content_type === ContentType.IMAGE ? analyze_image(request.content) : undefined;
+    const parsed = this.is_timed_media(request) ? parse_transcript(request.content) : undefined;
+
+    // Only transcripts get the longer limit; other video and audio content is held to the text limit
+    if (this.is_timed_media(request) && !parsed && request.content.length > MAX_CONTENT_LENGTH) {
+      throw new Error(NOTIFICATION_MESSAGES.CONTENT_TOO_LONG);
+    }
+
+    const joined = parsed && join_cues(parsed.cues);
+    const content = image
+      ? this.get_caption(request)
+      : joined ? joined.text : request.content;
+
+    // Normalized once and shared by every detector that matches words and phrases
+    const normalized = normalize_text(content);
+    const language = this.language_detector.detect(content);
+
+    const transcript = parsed && joined && { format: parsed.format, cues: parsed.cues, starts: joined.starts };
+
+    return { content, image, transcript, normalized, language, memo: new Map() };
+  }
+
+  private is_timed_media(request: ContentModerationRequest): boolean {
+    return request.content_type === ContentType.VIDEO || request.content_type === ContentType.AUDIO;
+  }
+
+  private get_caption(request: ContentModerationRequest): string {
+    const caption = request.metadata?.caption;
+    return typeof caption === 'string' ? caption : '';
+  }
+
+  private async build_response(
+    request: ContentModerationRequest,
+    analysis: ContentAnalysis,
+    start_time: number
+  ): Promise<ContentModerationResponse> {
+    const flags: ModerationFlag[] = [];
+    const { language } = analysis;
+    // For images, text checks and their spans refer to the caption
+    const text_request = { ...request, content: analysis.content };
+    const has_text = analysis.content.trim().length > 0;
+
+    // Lexicons only cover some languages; anything else goes to a human instead of passing as safe
+    if (has_text && !language.supported) {
+      flags.push({
+        type: 'unsupported_language',
+        severity: SeverityLevel.MEDIUM,
+        confidence: language.confidence,
+        description: `${NOTIFICATION_MESSAGES.UNSUPPORTED_LANGUAGE} (${language.language})`,
+        suggestion: NOTIFICATION_MESSAGES.RECOMMEND_REVIEW
+      });
+    }
+
+    const score_sources: Record<string, ScoreSource> = {};
+    if (has_text) {
+      const text_flags = await this.check_text(text_request, analysis, score_sources);
+      flags.push(...(analysis.transcript ? this.locate_in_transcript(text_flags, analysis.transcript) : text_flags));
+    }
+
+    // Check platform-specific rules. A transcript isn't the post's text, so only the other fields are checked.
+    const platform_flags = analysis.transcript
+      ? this.check_platform_fields(request, this.get_platform_profile(request.platform) as PlatformProfile)
+      : this.check_platform_rules(text_request);
+    flags.push(...platform_flags);
+
+    if (analysis.image) {
+      flags.push(...this.check_image(analysis.image, request.platform));
+    }
+
+    // Calculate overall severity and confidence
+    const overall_severity = this.calculate_overall_severity(flags);
+    const confidence_score = this.calculate_confidence_score(flags);
+    const decision = this.decide(flags, request.platform);
+    const safe_to_post = this.determine_safe_to_post(decision);
+    const recommendations = this.generate_recommendations(flags, request.platform);
+    const requires_review = this.requires_review(flags, overall_severity, decision);
+
+    const processing_time_ms = Date.now() - start_time;
+
+    return {
+      request_id: crypto.randomUUID(),
+      is_flagged: flags.length > 0,
+      flags,
+      overall_severity,
+      confidence_score,
+      safe_to_post,
+      action: decision.action,
+      policy_clause: decision.clause,
+      recommendations,
+      processing_time_ms,
+      config_version: this.config_version,
+      requires_review,
+      detected_language: language.language,
+      score_sources: Object.keys(score_sources).length > 0 ? score_sources : undefined,
+      image: analysis.image,
+      transcript: analysis.transcript && this.summarize_transcript(analysis.transcript, flags)
+    };
+  }
+
+  // Each enabled detector turns the shared analysis into flags using this platform's thresholds, then custom rules run
+  private async check_text(
+    request: ContentModerationRequest,
+    analysis: ContentAnalysis,
+    score_sources: Record<string, ScoreSource>
+  ): Promise<ModerationFlag[]> {
+    const flags: ModerationFlag[] = [];
+
+    for (const detector of this.detectors.list()) {
+      if (!this.detectors.is_enabled(detector, this.config)) continue;
+      flags.push(...await this.run_detector(detector, request, analysis, score_sources));
+    }
+
+    flags.push(...await this.rule_engine.check_rules(request, analysis.normalized));
+
+    return flags;
+  }
+
+  // Spans are moved from the joined text into the submitted content, and flags with spans get the timestamps
+  // of the cues they cover. Flags scored over the whole transcript, such as sentiment, have no segment.
+  private locate_in_transcript(flags: ModerationFlag[], transcript: TranscriptAnalysis): ModerationFlag[] {
+    const { cues, starts } = transcript;
+    const to_content = (position: number, cue_index: number): number => cues[cue_index].offset + position - starts[cue_index];
+
+    return flags.map(flag => {
+      if (!flag.spans || flag.spans.length === 0) return flag;
+
+      let first = cues.length - 1;
+      let last = 0;
+      const spans = flag.spans.map(span => {
+        const start_cue = find_cue(starts, span.start);
+        const end_cue = find_cue(starts, Math.max(span.start, span.end - 1));
+        first = Math.min(first, start_cue);
+        last = Math.max(last, end_cue);
+        return { ...span, start: to_content(span.start, start_cue), end: to_content(span.end, end_cue) };
+      });
+
+      return {
+        ...flag,
+        spans,
+        segment: {
+          index: cues[first].index,
+          start_ms: cues[first].start_ms,
+          end_ms: cues[last].end_ms,
+          ...(last !== first && { last_index: cues[last].index })
         }
-      }
+      };
+    });
+  }
 
-      if (this.config.enable_personal_info_detection) {
-        const personal_info_result = await this.personal_info_detector.check(request.content);
-        if (personal_info_result.has_personal_info) {
-          flags.push({
-            type: 'personal_info',
-            severity: SeverityLevel.HIGH,
-            confidence: personal_info_result.confidence,
-            description: NOTIFICATION_MESSAGES.PERSONAL_INFO_DETECTED,
-            flagged_text: personal_info_result.detected_info.join(', '),
-            suggestion: NOTIFICATION_MESSAGES.RECOMMEND_EDIT
-          });
+  private summarize_transcript(transcript: TranscriptAnalysis, flags: ModerationFlag[]): TranscriptResult {
+    return {
+      format: transcript.format,
+      segments: transcript.cues.map(cue => {
+        const segment_flags = flags.filter(flag =>
+          flag.segment && flag.segment.index <= cue.index && cue.index <= (flag.segment.last_index ?? flag.segment.index));
+        return {
+          index: cue.index,
+          start_ms: cue.start_ms,
+          end_ms: cue.end_ms,
+          text: cue.text.replace(/\s+/g, ' ').trim(),
+          is_flagged: segment_flags.length > 0,
+          flag_types: [...new Set(segment_flags.map(flag => flag.type))],
+          highest_severity: segment_flags.length > 0 ? this.calculate_overall_severity(segment_flags) : null
+        };
+      })
+    };
+  }
+
+  // Detectors that report a score source have it recorded for the response and stamped on their flags.
+  // When several checks share a detector's score, a fallback in any of them is what the response reports.
+  private async run_detector(
+    detector: Detector,
+    request: ContentModerationRequest,
+    analysis: ContentAnalysis,
+    score_sources: Record<string, ScoreSource>
+  ): Promise<ModerationFlag[]> {
+    let reported_source: ScoreSource | undefined;
+    const input: DetectorInput = {
+      request,
+      normalized: analysis.normalized,
+      language: analysis.language,
+      settings: this.detectors.resolve_settings(detector, this.config),
+      threshold: (name: string = detector.name) => this.resolve_threshold(name, request.platform),
+      memo: <T>(key: string, compute: () => Promise<T>): Promise<T> => {
+        let result = analysis.memo.get(key) as Promise<T> | undefined;
+        if (!result) {
+          result = compute();
+          analysis.memo.set(key, result);
+        }
+        return result;
+      },
+      report_source: (source: ScoreSource) => {
+        reported_source = source;
+        if (score_sources[detector.name] !== ScoreSource.FALLBACK) {
+          score_sources[detector.name] = source;
         }
       }
+    };
+
+    try {
+      const flags = await detector.check(input);
+      const source = reported_source;
+      return source ? flags.map(flag => ({ ...flag, source: flag.source ?? source })) : flags;
+    } catch (error) {
+      throw new Error(`Detector ${detector.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Run custom rules
-      const rule_flags = await this.rule_engine.check_rules(request);
-      flags.push(...rule_flags);
+  async moderate_batch(items: BatchModerationItem[]): Promise<BatchModerationResponse> {
+    const start_time = Date.now();
 
-      // Check platform-specific rules
-      const platform_flags = this.check_platform_rules(request);
-      flags.push(...platform_flags);
+    const results = await Promise.all(
+      items.map((item, index) => this.moderate_batch_item(item, index))
+    );
 
-      // Calculate overall severity and confidence
-      const overall_severity = this.calculate_overall_severity(flags);
-      const confidence_score = this.calculate_confidence_score(flags);
-      const safe_to_post = this.determine_safe_to_post(flags, overall_severity);
-      const recommendations = this.generate_recommendations(flags, request.platform);
+    return {
+      results,
+      summary: this.summarize_batch(results),
+      processing_time_ms: Date.now() - start_time
+    };
+  }
 
-      const processing_time_ms = Date.now() - start_time;
+  private async moderate_batch_item(item: BatchModerationItem, index: number): Promise<BatchModerationItemResult> {
+    const correlation_id = item && item.correlation_id ? String(item.correlation_id) : `item_${index}`;
 
+    // Validate required fields per item so one bad item doesn't fail the batch
+    if (!item || !item.content || !item.content_type || !item.platform) {
       return {
-        is_flagged: flags.length > 0,
-        flags,
-        overall_severity,
-        confidence_score,
-        safe_to_post,
-        recommendations,
-        processing_time_ms
+        correlation_id,
+        success: false,
+        error: {
+          code: ERROR_CODES.INVALID_REQUEST,
+          message: NOTIFICATION_MESSAGES.INVALID_REQUEST,
+          details: 'Missing required fields: content, content_type, platform'
+        }
       };
+    }
 
+    try {
+      const { correlation_id: _correlation_id, ...request } = item;
+      const data = await this.moderate_content(request);
+      return { correlation_id, success: true, data };
     } catch (error) {
-      throw new Error(`${NOTIFICATION_MESSAGES.MODERATION_FAILED}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        correlation_id,
+        success: false,
+        error: {
+          code: ERROR_CODES.MODERATION_FAILED,
+          message: NOTIFICATION_MESSAGES.MODERATION_FAILED,
+          details: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
     }
   }
 
+  private summarize_batch(results: BatchModerationItemResult[]): BatchModerationSummary {
+    let highest_severity: SeverityLevel | null = null;
+    let flagged_count = 0;
+    let unsafe_count = 0;
+    let succeeded = 0;
+
+    for (const result of results) {
+      if (!result.data) continue;
+      succeeded++;
+
+      if (result.data.is_flagged) {
+        flagged_count++;
+        const severity = result.data.overall_severity;
+        if (highest_severity === null || SEVERITY_SCORES[severity] > SEVERITY_SCORES[highest_severity]) {
+          highest_severity = severity;
+        }
+      }
+
+      if (!result.data.safe_to_post) {
+        unsafe_count++;
+      }
+    }
+
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      flagged_count,
+      unsafe_count,
+      highest_severity
+    };
+  }
+
   private validate_request(request: ContentModerationRequest): void {
     if (!request.content || request.content.trim().length === 0) {
       throw new Error(NOTIFICATION_MESSAGES.CONTENT_EMPTY);
     }
 
-    if (request.content.length > 10000) {
+    // Image content is encoded image data, bounded by its pixel count instead
+    const max_length = this.is_timed_media(request) ? MAX_TRANSCRIPT_LENGTH : MAX_CONTENT_LENGTH;
+    if (request.content_type !== ContentType.IMAGE && request.content.length > max_length) {
       throw new Error(NOTIFICATION_MESSAGES.CONTENT_TOO_LONG);
     }
 
@@ -158,52 +479,181 @@ export class ModerationEngine {
       throw new Error(NOTIFICATION_MESSAGES.INVALID_CONTENT_TYPE);
     }
 
-    if (!Object.values(PlatformType).includes(request.platform)) {
+    if (!this.get_platform_profile(request.platform)) {
       throw new Error(NOTIFICATION_MESSAGES.INVALID_PLATFORM);
     }
   }
 
   private check_platform_rules(request: ContentModerationRequest): ModerationFlag[] {
+    const profile = this.get_platform_profile(request.platform) as PlatformProfile;
     const flags: ModerationFlag[] = [];
+    const content = request.content;
+
+    const character_count = count_characters(content, profile.character_weights);
+    if (character_count > profile.character_limit) {
+      const overflow_start = find_limit_offset(content, profile.character_limit, profile.character_weights);
+      flags.push({
+        type: 'character_limit',
+        severity: SeverityLevel.LOW,
+        confidence: 1.0,
+        description: `${NOTIFICATION_MESSAGES.CHARACTER_LIMIT} (${profile.content_field}: ${character_count}/${profile.character_limit})`,
+        suggestion: `Consider shortening your ${profile.content_field}`,
+        spans: [{
+          start: overflow_start,
+          end: content.length,
+          text: content.slice(overflow_start),
+          pattern: `max_length:${profile.character_limit}`
+        }]
+      });
+    }
 
-    switch (request.platform) {
-      case PlatformType.TWITTER:
-        if (request.content.length > 280) {
-          flags.push({
-            type: 'character_limit',
-            severity: SeverityLevel.LOW,
-            confidence: 1.0,
-            description: NOTIFICATION_MESSAGES.CHARACTER_LIMIT,
-            suggestion: 'Consider shortening your post'
-          });
-        }
-        break;
+    const count_limits = [
+      { type: 'hashtag_limit', limit: profile.hashtag_limit, spans: find_hashtag_spans(content), description: NOTIFICATION_MESSAGES.HASHTAG_LIMIT, suggestion: 'Reduce the number of hashtags' },
+      { type: 'mention_limit', limit: profile.mention_limit, spans: find_mention_spans(content), description: NOTIFICATION_MESSAGES.MENTION_LIMIT, suggestion: 'Reduce the number of mentions' },
+      { type: 'link_limit', limit: profile.link_limit, spans: find_link_spans(content), description: NOTIFICATION_MESSAGES.LINK_LIMIT, suggestion: 'Reduce the number of links' }
+    ];
+    for (const { type, limit, spans, description, suggestion } of count_limits) {
+      if (limit === undefined || spans.length <= limit) continue;
+      flags.push({
+        type,
+        severity: SeverityLevel.LOW,
+        confidence: 1.0,
+        description: `${description} (${spans.length}/${limit})`,
+        suggestion,
+        spans
+      });
+    }
 
-      case PlatformType.INSTAGRAM:
-        const hashtag_count = (request.content.match(/#/g) || []).length;
-        if (hashtag_count > 30) {
-          flags.push({
-            type: 'hashtag_limit',
-            severity: SeverityLevel.LOW,
-            confidence: 1.0,
-            description: NOTIFICATION_MESSAGES.HASHTAG_LIMIT,
-            suggestion: 'Reduce the number of hashtags'
-          });
-        }
-        break;
+    const banned_link_types = profile.banned_link_types || [];
+    if (banned_link_types.length > 0) {
+      const banned_spans = find_link_spans(content).flatMap(span => {
+        const banned_type = classify_link(span.text).reverse().find(type => banned_link_types.includes(type));
+        return banned_type ? [{ ...span, category: banned_type }] : [];
+      });
+
+      if (banned_spans.length > 0) {
+        flags.push({
+          type: 'banned_link',
+          severity: SeverityLevel.MEDIUM,
+          confidence: 1.0,
+          description: `${NOTIFICATION_MESSAGES.BANNED_LINK} (${[...new Set(banned_spans.map(span => span.category))].join(', ')})`,
+          flagged_text: banned_spans.map(span => span.text).join(', '),
+          suggestion: banned_link_types.includes(LinkType.ANY) ? 'Remove links from your post' : 'Replace the link with a full, secure URL',
+          spans: banned_spans
+        });
+      }
+    }
+
+    flags.push(...this.check_platform_fields(request, profile));
+
+    return flags;
+  }
+
+  // Fields other than content, such as a YouTube title, only have their presence and length checked
+  private check_platform_fields(request: ContentModerationRequest, profile: PlatformProfile): ModerationFlag[] {
+    const flags: ModerationFlag[] = [];
 
-      case PlatformType.LINKEDIN:
-        const mention_count = (request.content.match(/@/g) || []).length;
-        if (mention_count > 5) {
+    for (const [field, limits] of Object.entries(profile.fields || {})) {
+      const value = request.fields?.[field];
+
+      if (value === undefined || value.trim().length === 0) {
+        if (limits.required) {
           flags.push({
-            type: 'mention_limit',
+            type: 'missing_field',
             severity: SeverityLevel.LOW,
             confidence: 1.0,
-            description: NOTIFICATION_MESSAGES.MENTION_LIMIT,
-            suggestion: 'Reduce the number of mentions'
+            description: `${NOTIFICATION_MESSAGES.FIELD_REQUIRED} (${field})`,
+            suggestion: `Add a ${field}`,
+            spans: [],
+            field
           });
         }
-        break;
+        continue;
+      }
+
+      const character_count = count_characters(value, profile.character_weights);
+      if (character_count > limits.character_limit) {
+        const overflow_start = find_limit_offset(value, limits.character_limit, profile.character_weights);
+        flags.push({
+          type: 'character_limit',
+          severity: SeverityLevel.LOW,
+          confidence: 1.0,
+          description: `${NOTIFICATION_MESSAGES.CHARACTER_LIMIT} (${field}: ${character_count}/${limits.character_limit})`,
+          suggestion: `Consider shortening your ${field}`,
+          spans: [{
+            start: overflow_start,
+            end: value.length,
+            text: value.slice(overflow_start),
+            pattern: `max_length:${limits.character_limit}`
+          }],
+          field
+        });
+      }
+    }
+
+    return flags;
+  }
+
+  // Known-bad images are matched on every platform; format, size and shape are checked against the profile
+  private check_image(image: ImageAnalysis, platform: PlatformType): ModerationFlag[] {
+    const flags: ModerationFlag[] = [];
+
+    if (!image.hashes) {
+      flags.push({
+        type: 'image_unverified',
+        severity: SeverityLevel.MEDIUM,
+        confidence: 1.0,
+        description: `${NOTIFICATION_MESSAGES.IMAGE_UNVERIFIED} (${image.format})`,
+        suggestion: NOTIFICATION_MESSAGES.RECOMMEND_REVIEW
+      });
+    } else if (this.image_blocklist) {
+      const max_distance = this.config.image_match_distance ?? DEFAULT_IMAGE_MATCH_DISTANCE;
+      const match = this.image_blocklist.match(image.hashes, max_distance);
+      if (match) {
+        flags.push({
+          type: 'image_blocklisted',
+          severity: SeverityLevel.CRITICAL,
+          confidence: 1 - match.distance / 64,
+          description: `${NOTIFICATION_MESSAGES.IMAGE_BLOCKLISTED} (${match.entry.label}, ${match.hash} distance ${match.distance})`,
+          suggestion: 'Remove this image',
+          blocklist_entry: match.entry.id
+        });
+      }
+    }
+
+    const limits = (this.get_platform_profile(platform) as PlatformProfile).image;
+    if (!limits) return flags;
+
+    const limit_flag = (type: string, description: string, suggestion: string): ModerationFlag => ({
+      type,
+      severity: SeverityLevel.LOW,
+      confidence: 1.0,
+      description,
+      suggestion
+    });
+
+    if (!limits.formats.includes(image.format)) {
+      flags.push(limit_flag('image_format', `${NOTIFICATION_MESSAGES.IMAGE_FORMAT} (${image.format}; accepted: ${limits.formats.join(', ')})`, `Convert the image to ${limits.formats.join(' or ')}`));
+    }
+
+    if (limits.max_bytes !== undefined && image.bytes > limits.max_bytes) {
+      flags.push(limit_flag('image_file_size', `${NOTIFICATION_MESSAGES.IMAGE_FILE_SIZE} (${image.bytes}/${limits.max_bytes} bytes)`, 'Compress or resize the image'));
+    }
+
+    const too_small = (limits.min_width !== undefined && image.width < limits.min_width) ||
+      (limits.min_height !== undefined && image.height < limits.min_height);
+    const too_large = (limits.max_width !== undefined && image.width > limits.max_width) ||
+      (limits.max_height !== undefined && image.height > limits.max_height);
+    if (too_small || too_large) {
+      const range = `${limits.min_width ?? 1}x${limits.min_height ?? 1} to ${limits.max_width ?? 'any'}x${limits.max_height ?? 'any'}`;
+      flags.push(limit_flag('image_dimensions', `${NOTIFICATION_MESSAGES.IMAGE_DIMENSIONS} (${image.width}x${image.height}; allowed: ${range})`, too_small ? 'Use a larger image' : 'Resize the image'));
+    }
+
+    const aspect_ratio = image.width / image.height;
+    if ((limits.min_aspect_ratio !== undefined && aspect_ratio < limits.min_aspect_ratio) ||
+        (limits.max_aspect_ratio !== undefined && aspect_ratio > limits.max_aspect_ratio)) {
+      const range = `${limits.min_aspect_ratio ?? 'any'} to ${limits.max_aspect_ratio ?? 'any'}`;
+      flags.push(limit_flag('image_aspect_ratio', `${NOTIFICATION_MESSAGES.IMAGE_ASPECT_RATIO} (${aspect_ratio.toFixed(2)}; allowed: ${range})`, 'Crop the image'));
     }
 
     return flags;
@@ -212,15 +662,8 @@ export class ModerationEngine {
   private calculate_overall_severity(flags: ModerationFlag[]): SeverityLevel {
     if (flags.length === 0) return SeverityLevel.LOW;
 
-    const severity_scores = {
-      [SeverityLevel.LOW]: 1,
-      [SeverityLevel.MEDIUM]: 2,
-      [SeverityLevel.HIGH]: 3,
-      [SeverityLevel.CRITICAL]: 4
-    };
-
     const max_severity = flags.reduce((max, flag) => {
-      return severity_scores[flag.severity] > severity_scores[max] ? flag.severity : max;
+      return SEVERITY_SCORES[flag.severity] > SEVERITY_SCORES[max] ? flag.severity : max;
     }, SeverityLevel.LOW);
 
     return max_severity;
@@ -233,14 +676,41 @@ export class ModerationEngine {
     return total_confidence / flags.length;
   }
 
-  private determine_safe_to_post(flags: ModerationFlag[], overall_severity: SeverityLevel): boolean {
-    // Don't allow posting if there are critical or high severity flags
-    if (overall_severity === SeverityLevel.CRITICAL || overall_severity === SeverityLevel.HIGH) {
-      return false;
+  private decide(flags: ModerationFlag[], platform: PlatformType): PolicyDecision {
+    const decision = this.policy_engine.evaluate(flags, platform);
+
+    if (decision.action !== PolicyAction.BLOCK && flags.some(flag => flag.type === 'secret')) {
+      return { action: PolicyAction.BLOCK, clause: SECRET_GUARD_CLAUSE };
     }
 
-    // Allow posting for low and medium severity flags (user should review)
-    return true;
+    return decision;
+  }
+
+  private determine_safe_to_post(decision: PolicyDecision): boolean {
+    // A warning still lets the post go out; review and block hold it back
+    return decision.action === PolicyAction.ALLOW || decision.action === PolicyAction.ALLOW_WITH_WARNING;
+  }
+
+  // Most specific wins: platform detector cutoff, platform sensitivity, detector cutoff, then global sensitivity
+  resolve_threshold(detector: string, platform: PlatformType): number {
+    const platform_thresholds = this.config.platform_thresholds?.[platform];
+
+    return platform_thresholds?.detector_thresholds?.[detector]
+      ?? platform_thresholds?.sensitivity_threshold
+      ?? this.config.detector_thresholds?.[detector]
+      ?? DEFAULT_DETECTOR_THRESHOLDS[detector]
+      ?? this.config.sensitivity_threshold;
+  }
+
+  private requires_review(flags: ModerationFlag[], overall_severity: SeverityLevel, decision: PolicyDecision): boolean {
+    const review_config = this.config.review_queue || DEFAULT_REVIEW_QUEUE_CONFIG;
+    if (!review_config.enabled || flags.length === 0) return false;
+
+    // The policy can send content to a human whatever its severity
+    if (decision.action === PolicyAction.REQUIRE_REVIEW) return true;
+
+    const score = SEVERITY_SCORES[overall_severity];
+    return score >= SEVERITY_SCORES[review_config.min_severity] && score <= SEVERITY_SCORES[review_config.max_severity];
   }
 
   private generate_recommendations(flags: ModerationFlag[], platform: PlatformType): string[] {
@@ -261,27 +731,112 @@ export class ModerationEngine {
     }
 
     // Add platform-specific recommendations
-    switch (platform) {
-      case PlatformType.TWITTER:
-        recommendations.push('Consider using Twitter\'s built-in content warnings for sensitive topics');
-        break;
-      case PlatformType.INSTAGRAM:
-        recommendations.push('Use Instagram\'s content filters and moderation tools');
-        break;
-      case PlatformType.LINKEDIN:
-        recommendations.push('Ensure content aligns with LinkedIn\'s professional community guidelines');
-        break;
+    const recommendation = this.get_platform_profile(platform)?.recommendation;
+    if (recommendation) {
+      recommendations.push(recommendation);
     }
 
     return recommendations;
   }
 
-  update_config(new_config: ModerationConfig): void {
+  update_config(new_config: ModerationConfig, config_version: number = this.config_version): void {
     this.config = new_config;
+    this.config_version = config_version;
     this.rule_engine.update_rules(new_config.rules);
+    this.policy_engine.update_policy(new_config.decision_policy || DEFAULT_DECISION_POLICY);
+    this.platform_profiles = { ...DEFAULT_PLATFORM_PROFILES, ...new_config.platform_profiles };
   }
 
   get_config(): ModerationConfig {
-    return this.config;
+    return {
+      ...this.config,
+      rules: this.rule_engine.get_all_rules(),
+      decision_policy: this.policy_engine.get_policy(),
+      platform_profiles: this.get_profile_overrides()
+    };
+  }
+
+  // Built-in profiles are left out unless edited, so stored configs pick up changes to the defaults
+  private get_profile_overrides(): Record<string, PlatformProfile> {
+    const overrides: Record<string, PlatformProfile> = {};
+    for (const [platform, profile] of Object.entries(this.platform_profiles)) {
+      const built_in = DEFAULT_PLATFORM_PROFILES[platform as PlatformType];
+      if (!built_in || JSON.stringify(profile) !== JSON.stringify(built_in)) {
+        overrides[platform] = profile;
+      }
+    }
+    return overrides;
+  }
+
+  get_config_version(): number {
+    return this.config_version;
+  }
+
+  set_config_version(config_version: number): void {
+    this.config_version = config_version;
+  }
+
+  is_detector_enabled(name: string): boolean {
+    const detector = this.detectors.get(name);
+    return !!detector && this.detectors.is_enabled(detector, this.config);
+  }
+
+  get_detectors(): DetectorDescriptor[] {
+    return this.detectors.describe(this.config);
+  }
+
+  // Settings for every registered detector with defaults filled in, in the form config.detectors accepts
+  get_detector_settings(): Record<string, DetectorSettings> {
+    return this.detectors.effective_settings(this.config);
+  }
+
+  get_rule_engine(): RuleEngine {
+    return this.rule_engine;
+  }
+
+  get_policy_engine(): PolicyEngine {
+    return this.policy_engine;
+  }
+
+  get_platforms(): string[] {
+    return Object.keys(this.platform_profiles);
+  }
+
+  get_platform_profiles(): Record<string, PlatformProfile> {
+    return { ...this.platform_profiles };
+  }
+
+  get_platform_profile(platform: string): PlatformProfile | undefined {
+    return Object.prototype.hasOwnProperty.call(this.platform_profiles, platform) ? this.platform_profiles[platform] : undefined;
+  }
+
+  set_platform_profile(platform: string, profile: PlatformProfile): void {
+    this.platform_profiles[platform] = profile;
+  }
+
+  // Rules, policy clauses and thresholds that name the platform, which would be left pointing at nothing
+  get_platform_references(platform: string): string[] {
+    const references: string[] = [];
+
+    for (const rule of this.rule_engine.get_all_rules()) {
+      if (rule.platforms.includes(platform as PlatformType)) references.push(`rule ${rule.id}`);
+    }
+    for (const clause of this.policy_engine.get_policy().clauses) {
+      if (clause.platforms?.includes(platform as PlatformType)) references.push(`policy clause ${clause.id}`);
+    }
+    if (this.config.platform_thresholds?.[platform as PlatformType]) {
+      references.push(`platform_thresholds.${platform}`);
+    }
+
+    return references;
+  }
+
+  // Built-in platforms always keep a profile, so only added platforms can be removed
+  remove_platform_profile(platform: string): boolean {
+    if (!this.get_platform_profile(platform) || Object.values(PlatformType).includes(platform as PlatformType)) {
+      return false;
+    }
+    delete this.platform_profiles[platform];
+    return true;
   }
 } 
\ No newline at end of file
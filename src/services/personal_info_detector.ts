@@ -1,8 +1,63 @@
+import { ModerationSpan } from '../types/content_moderation';
+import { validate_threshold } from '../utils/config_validation';
+import { find_phrase_spans, find_regex_spans, sort_spans, escape_regex } from '../utils/spans';
+import {
+  check_phone_plausibility,
+  detect_card_network,
+  digits_only,
+  is_valid_ssn,
+  passes_luhn
+} from '../utils/pii_validation';
+
+export type PersonalInfoValidation = 'passed' | 'failed' | 'not_applicable';
+
+export interface PersonalInfoFinding {
+  type: string;
+  text: string;
+  start: number;
+  end: number;
+  pattern: string;
+  confidence: number;
+  validation: PersonalInfoValidation;
+  detail?: string;
+  context_words?: string[];
+}
+
 export interface PersonalInfoCheckResult {
   has_personal_info: boolean;
   confidence: number;
+  findings: PersonalInfoFinding[];
   detected_info: string[];
   info_types: string[];
+  spans: ModerationSpan[];
+}
+
+type ScoredFinding = Pick<PersonalInfoFinding, 'confidence' | 'validation' | 'detail' | 'context_words'>;
+
+// Characters either side of a match searched for context words
+const CONTEXT_WINDOW = 30;
+
+const CREDIT_CARD_CONTEXT = ['card', 'credit', 'debit', 'visa', 'mastercard', 'amex', 'cvv', 'cvc', 'exp', 'expiry', 'billing'];
+const SSN_CONTEXT = ['ssn', 'social security', 'social', 'tax id', 'tin'];
+const PHONE_CONTEXT = ['call', 'call me', 'phone', 'text me', 'tel', 'mobile', 'cell', 'whatsapp', 'reach me', 'contact'];
+const NEGATIVE_CONTEXT = ['order', 'tracking', 'invoice', 'ref', 'reference', 'sku', 'serial', 'model', 'part', 'shipment'];
+
+const PERSONAL_KEYWORDS = [
+  'password', 'pin', 'account number', 'routing number',
+  'date of birth', 'birthday', 'ssn', 'social security',
+  'driver license', 'passport', 'id number'
+];
+
+function contains_word(text: string, word: string): boolean {
+  return new RegExp(`\\b${escape_regex(word)}\\b`).test(text);
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function clamp(confidence: number): number {
+  return Math.round(Math.min(Math.max(confidence, 0), 0.99) * 100) / 100;
 }
 
 export class PersonalInfoDetector {
@@ -12,6 +67,7 @@ export class PersonalInfoDetector {
   private credit_card_pattern!: RegExp;
   private address_patterns!: RegExp[];
   private name_patterns!: RegExp[];
+  private detection_threshold = 0.5;
 
   constructor() {
     this.initialize_patterns();
@@ -24,16 +80,16 @@ export class PersonalInfoDetector {
     // Phone number patterns
     this.phone_patterns = [
       /\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, // 123-456-7890 or 123.456.7890
-      /\b\(\d{3}\)\s?\d{3}[-.]?\d{4}\b/g, // (123) 456-7890
-      /\b\+\d{1,3}\s?\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, // +1 123-456-7890
+      /(?<!\w)\(\d{3}\)\s?\d{3}[-.]?\d{4}\b/g, // (123) 456-7890
+      /(?<![\w+])\+\d{1,3}(?:[\s.-]?\d{2,4}){2,4}\b/g, // +1 123-456-7890, +44 20 7946 0958
       /\b\d{10,11}\b/g // 10-11 digit numbers
     ];
 
     // Social Security Number pattern
     this.ssn_pattern = /\b\d{3}-\d{2}-\d{4}\b/g;
 
-    // Credit card pattern
-    this.credit_card_pattern = /\b\d{4}[- ]?\d{4}[- ]?\d{4}[- ]?\d{4}\b/g;
+    // Credit card patterns: 13-19 contiguous digits, 4-4-4-4(-3) groups or Amex/Diners 4-6-5/4-6-4 groups
+    this.credit_card_pattern = /\b(?:\d{13,19}|\d{4}([- ])\d{4}\1\d{4}\1\d{4}(?:\1\d{3})?|\d{4}([- ])\d{6}\2\d{4,5})\b/g;
 
     // Address patterns
     this.address_patterns = [
@@ -48,96 +104,162 @@ export class PersonalInfoDetector {
     ];
   }
 
-  async check(content: string): Promise<PersonalInfoCheckResult> {
-    const detected_info: string[] = [];
-    const info_types: string[] = [];
-    let confidence = 0;
+  async check(content: string, threshold: number = this.detection_threshold): Promise<PersonalInfoCheckResult> {
+    const candidates: PersonalInfoFinding[] = [];
 
     // Check for emails
-    const emails = content.match(this.email_pattern);
-    if (emails) {
-      detected_info.push(...emails);
-      info_types.push('email');
-      confidence = Math.max(confidence, 0.9);
-    }
+    candidates.push(...this.find(content, this.email_pattern, 'email', () => ({ confidence: 0.9, validation: 'not_applicable' })));
 
     // Check for phone numbers
     for (const pattern of this.phone_patterns) {
-      const phones = content.match(pattern);
-      if (phones) {
-        detected_info.push(...phones);
-        if (!info_types.includes('phone')) {
-          info_types.push('phone');
-        }
-        confidence = Math.max(confidence, 0.8);
-      }
+      candidates.push(...this.find(content, pattern, 'phone', span => this.score_phone(content, span)));
     }
 
     // Check for SSN
-    const ssns = content.match(this.ssn_pattern);
-    if (ssns) {
-      detected_info.push(...ssns);
-      info_types.push('ssn');
-      confidence = Math.max(confidence, 0.95);
-    }
+    candidates.push(...this.find(content, this.ssn_pattern, 'ssn', span => this.score_ssn(content, span)));
 
     // Check for credit cards
-    const credit_cards = content.match(this.credit_card_pattern);
-    if (credit_cards) {
-      detected_info.push(...credit_cards);
-      info_types.push('credit_card');
-      confidence = Math.max(confidence, 0.9);
-    }
+    candidates.push(...this.find(content, this.credit_card_pattern, 'credit_card', span => this.score_credit_card(content, span)));
 
     // Check for addresses
     for (const pattern of this.address_patterns) {
-      const addresses = content.match(pattern);
-      if (addresses) {
-        detected_info.push(...addresses);
-        if (!info_types.includes('address')) {
-          info_types.push('address');
-        }
-        confidence = Math.max(confidence, 0.7);
-      }
+      candidates.push(...this.find(content, pattern, 'address', () => ({ confidence: 0.7, validation: 'not_applicable' })));
     }
 
+    const findings = this.resolve_overlaps(candidates.filter(finding => finding.confidence >= threshold));
+
     // Check for names (lower confidence as names are common)
     for (const pattern of this.name_patterns) {
-      const names = content.match(pattern);
-      if (names) {
-        // Only flag if there are multiple names or other personal info
-        if (names.length > 1 || detected_info.length > 0) {
-          detected_info.push(...names);
-          if (!info_types.includes('name')) {
-            info_types.push('name');
-          }
-          confidence = Math.max(confidence, 0.6);
-        }
+      const names = this.find(content, pattern, 'name', () => ({ confidence: 0.6, validation: 'not_applicable' }));
+      // Only flag if there are multiple names or other personal info
+      if (names.length > 1 || (names.length > 0 && findings.length > 0)) {
+        findings.push(...this.resolve_overlaps(names).filter(name => !findings.some(finding => overlaps(finding, name))));
       }
     }
 
+    const spans: ModerationSpan[] = findings.map(finding => ({
+      start: finding.start,
+      end: finding.end,
+      text: finding.text,
+      pattern: finding.pattern,
+      category: finding.type
+    }));
+
     // Check for common personal info keywords
-    const personal_keywords = [
-      'password', 'pin', 'account number', 'routing number',
-      'date of birth', 'birthday', 'ssn', 'social security',
-      'driver license', 'passport', 'id number'
-    ];
+    for (const keyword of PERSONAL_KEYWORDS) {
+      spans.push(...find_phrase_spans(content, keyword, { category: 'personal_keyword' }));
+    }
 
-    for (const keyword of personal_keywords) {
-      if (content.toLowerCase().includes(keyword)) {
-        info_types.push('personal_keyword');
-        confidence = Math.max(confidence, 0.5);
-      }
+    const sorted_findings = [...findings].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    return {
+      has_personal_info: sorted_findings.length > 0,
+      confidence: sorted_findings.reduce((max, finding) => Math.max(max, finding.confidence), 0),
+      findings: sorted_findings,
+      detected_info: [...new Set(sorted_findings.map(finding => finding.text))], // Remove duplicates
+      info_types: [...new Set(sorted_findings.map(finding => finding.type))],
+      spans: sort_spans(spans)
+    };
+  }
+
+  private find(
+    content: string,
+    pattern: RegExp,
+    type: string,
+    score: (span: ModerationSpan) => ScoredFinding
+  ): PersonalInfoFinding[] {
+    return find_regex_spans(content, pattern).map(span => ({
+      type,
+      text: span.text,
+      start: span.start,
+      end: span.end,
+      pattern: span.pattern,
+      ...score(span)
+    }));
+  }
+
+  private score_credit_card(content: string, span: ModerationSpan): ScoredFinding {
+    const digits = digits_only(span.text);
+    const network = detect_card_network(digits);
+    const luhn = passes_luhn(digits);
+    const context = this.score_context(content, span, CREDIT_CARD_CONTEXT);
+
+    let base = 0.1;
+    if (luhn && network) {
+      base = 0.85;
+    } else if (luhn) {
+      // Valid checksum but no known issuer range
+      base = 0.4;
     }
 
     return {
-      has_personal_info: detected_info.length > 0,
-      confidence,
-      detected_info: [...new Set(detected_info)], // Remove duplicates
-      info_types: [...new Set(info_types)]
+      confidence: clamp(base + context.adjustment),
+      validation: luhn && network ? 'passed' : 'failed',
+      detail: network,
+      context_words: context.words
+    };
+  }
+
+  private score_ssn(content: string, span: ModerationSpan): ScoredFinding {
+    const valid = is_valid_ssn(span.text);
+    const context = this.score_context(content, span, SSN_CONTEXT);
+
+    return {
+      confidence: clamp((valid ? 0.6 : 0.1) + context.adjustment),
+      validation: valid ? 'passed' : 'failed',
+      context_words: context.words
     };
   }
 
+  private score_phone(content: string, span: ModerationSpan): ScoredFinding {
+    const result = check_phone_plausibility(span.text);
+    const context = this.score_context(content, span, PHONE_CONTEXT);
+
+    let base = 0.1;
+    if (result.plausible) {
+      // A bare run of digits is as likely to be an order or tracking number
+      base = /^\d+$/.test(span.text) ? 0.4 : 0.7;
+    }
+
+    return {
+      confidence: clamp(base + context.adjustment),
+      validation: result.plausible ? 'passed' : 'failed',
+      detail: result.country,
+      context_words: context.words
+    };
+  }
+
+  // Supporting words near a match raise confidence; order and tracking references lower it
+  private score_context(content: string, span: ModerationSpan, supporting: string[]): { adjustment: number; words: string[] } {
+    const window = content
+      .slice(Math.max(0, span.start - CONTEXT_WINDOW), span.end + CONTEXT_WINDOW)
+      .toLowerCase();
+
+    const words = supporting.filter(word => contains_word(window, word));
+    const negative = NEGATIVE_CONTEXT.filter(word => contains_word(window, word));
+
+    let adjustment = 0;
+    if (words.length > 0) adjustment += 0.3;
+    if (negative.length > 0) adjustment -= 0.3;
+
+    return { adjustment, words: [...words, ...negative] };
+  }
+
+  // Keep the most confident finding where candidates overlap (e.g. a card number also matching a phone pattern)
+  private resolve_overlaps(candidates: PersonalInfoFinding[]): PersonalInfoFinding[] {
+    const ranked = [...candidates].sort((a, b) =>
+      b.confidence - a.confidence || (b.end - b.start) - (a.end - a.start)
+    );
+
+    const accepted: PersonalInfoFinding[] = [];
+    for (const candidate of ranked) {
+      if (!accepted.some(finding => overlaps(finding, candidate))) {
+        accepted.push(candidate);
+      }
+    }
+    return accepted;
+  }
+
   add_pattern(pattern: RegExp, type: string): void {
     switch (type) {
       case 'phone':
@@ -153,10 +275,10 @@ export class PersonalInfoDetector {
   }
 
   get_detection_threshold(): number {
-    return 0.5;
+    return this.detection_threshold;
   }
 
   set_detection_threshold(threshold: number): void {
-    console.log(`Personal info detection threshold set to: ${threshold}`);
+    this.detection_threshold = validate_threshold(threshold);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,257 @@
+import {
+  DecisionPolicy,
+  ModerationFlag,
+  PlatformType,
+  PolicyAction,
+  PolicyClause,
+  PolicyCondition,
+  PolicyDecision,
+  SeverityLevel
+} from '../types/content_moderation';
+
+const CLAUSE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const SEVERITY_ORDER = [SeverityLevel.LOW, SeverityLevel.MEDIUM, SeverityLevel.HIGH, SeverityLevel.CRITICAL];
+
+// When several clauses match, the most restrictive action wins
+const ACTION_ORDER = [
+  PolicyAction.ALLOW,
+  PolicyAction.ALLOW_WITH_WARNING,
+  PolicyAction.REQUIRE_REVIEW,
+  PolicyAction.BLOCK
+];
+
+// Equivalent to the original fixed rule: HIGH or CRITICAL blocks, anything lower is allowed with a warning
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = {
+  clauses: [
+    {
+      id: 'block_secrets',
+      description: 'Leaked credentials are never posted',
+      action: PolicyAction.BLOCK,
+      conditions: [{ flag_types: ['secret'] }],
+      enabled: true
+    },
+    {
+      id: 'block_high_severity',
+      description: 'Block content with a HIGH or CRITICAL flag',
+      action: PolicyAction.BLOCK,
+      conditions: [{ min_severity: SeverityLevel.HIGH }],
+      enabled: true
+    },
+    {
+      id: 'review_unsupported_language',
+      description: 'Send content in unsupported languages to a human',
+      action: PolicyAction.REQUIRE_REVIEW,
+      conditions: [{ flag_types: ['unsupported_language'] }],
+      enabled: true
+    },
+    {
+      id: 'warn_on_flags',
+      description: 'Allow LOW and MEDIUM flags with a warning',
+      action: PolicyAction.ALLOW_WITH_WARNING,
+      conditions: [{ min_severity: SeverityLevel.LOW, max_severity: SeverityLevel.MEDIUM }],
+      enabled: true
+    }
+  ],
+  default_action: PolicyAction.ALLOW
+};
+
+export class PolicyEngine {
+  private policy: DecisionPolicy;
+
+  constructor(policy: DecisionPolicy = DEFAULT_DECISION_POLICY) {
+    this.policy = { clauses: [...policy.clauses], default_action: policy.default_action };
+  }
+
+  evaluate(flags: ModerationFlag[], platform: PlatformType): PolicyDecision {
+    let decision: PolicyDecision = { action: this.policy.default_action, clause: null };
+
+    for (const clause of this.policy.clauses) {
+      if (!clause.enabled || !this.clause_matches(clause, flags, platform)) continue;
+
+      // Ties go to the earlier clause
+      if (decision.clause === null || action_rank(clause.action) > action_rank(decision.action)) {
+        decision = { action: clause.action, clause };
+      }
+    }
+
+    return decision;
+  }
+
+  private clause_matches(clause: PolicyClause, flags: ModerationFlag[], platform: PlatformType): boolean {
+    if (clause.platforms && clause.platforms.length > 0 && !clause.platforms.includes(platform)) {
+      return false;
+    }
+    return clause.conditions.every(condition => this.condition_holds(condition, flags));
+  }
+
+  private condition_holds(condition: PolicyCondition, flags: ModerationFlag[]): boolean {
+    const count = flags.filter(flag => this.flag_matches(condition, flag)).length;
+    const min_count = condition.min_count ?? 1;
+    return count >= min_count && (condition.max_count === undefined || count <= condition.max_count);
+  }
+
+  private flag_matches(condition: PolicyCondition, flag: ModerationFlag): boolean {
+    if (condition.flag_types && !condition.flag_types.some(type => type_matches(type, flag.type))) {
+      return false;
+    }
+
+    const severity = SEVERITY_ORDER.indexOf(flag.severity);
+    if (condition.min_severity && severity < SEVERITY_ORDER.indexOf(condition.min_severity)) return false;
+    if (condition.max_severity && severity > SEVERITY_ORDER.indexOf(condition.max_severity)) return false;
+
+    return condition.min_confidence === undefined || flag.confidence >= condition.min_confidence;
+  }
+
+  get_policy(): DecisionPolicy {
+    return { clauses: [...this.policy.clauses], default_action: this.policy.default_action };
+  }
+
+  update_policy(policy: DecisionPolicy): void {
+    this.policy = { clauses: [...policy.clauses], default_action: policy.default_action };
+  }
+
+  get_clause(clause_id: string): PolicyClause | undefined {
+    return this.policy.clauses.find(clause => clause.id === clause_id);
+  }
+
+  add_clause(clause: PolicyClause): void {
+    this.policy.clauses.push(clause);
+  }
+
+  update_clause(clause_id: string, updates: Partial<PolicyClause>): PolicyClause | undefined {
+    const index = this.policy.clauses.findIndex(clause => clause.id === clause_id);
+    if (index === -1) return undefined;
+
+    // The id is immutable; it is what responses refer to
+    const updated_clause: PolicyClause = { ...this.policy.clauses[index], ...updates, id: clause_id };
+    this.policy.clauses[index] = updated_clause;
+    return updated_clause;
+  }
+
+  remove_clause(clause_id: string): boolean {
+    const initial_length = this.policy.clauses.length;
+    this.policy.clauses = this.policy.clauses.filter(clause => clause.id !== clause_id);
+    return this.policy.clauses.length < initial_length;
+  }
+
+  validate_policy(policy: Partial<DecisionPolicy>, platforms: string[] = Object.values(PlatformType)): string[] {
+    if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+      return ['policy must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    if (!ACTION_ORDER.includes(policy.default_action as PolicyAction)) {
+      errors.push(`default_action must be one of: ${ACTION_ORDER.join(', ')}`);
+    }
+
+    if (!Array.isArray(policy.clauses)) {
+      errors.push('clauses must be an array');
+    } else {
+      const seen_ids = new Set<string>();
+      for (const clause of policy.clauses) {
+        errors.push(...this.validate_clause(clause, platforms).map(error => `clause ${clause?.id}: ${error}`));
+        if (seen_ids.has(clause?.id)) {
+          errors.push(`clause ${clause.id}: duplicate clause id`);
+        }
+        seen_ids.add(clause?.id);
+      }
+    }
+
+    return errors;
+  }
+
+  validate_clause(clause: Partial<PolicyClause>, platforms: string[] = Object.values(PlatformType)): string[] {
+    if (typeof clause !== 'object' || clause === null || Array.isArray(clause)) {
+      return ['clause must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    if (typeof clause.id !== 'string' || !CLAUSE_ID_PATTERN.test(clause.id)) {
+      errors.push('id must be a non-empty string of letters, digits, "_" or "-"');
+    }
+
+    if (typeof clause.description !== 'string') {
+      errors.push('description must be a string');
+    }
+
+    if (!ACTION_ORDER.includes(clause.action as PolicyAction)) {
+      errors.push(`action must be one of: ${ACTION_ORDER.join(', ')}`);
+    }
+
+    if (typeof clause.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+
+    if (clause.platforms !== undefined) {
+      if (!Array.isArray(clause.platforms)) {
+        errors.push('platforms must be an array');
+      } else {
+        const invalid_platforms = clause.platforms.filter(platform => !platforms.includes(platform));
+        if (invalid_platforms.length > 0) {
+          errors.push(`Invalid platforms: ${invalid_platforms.join(', ')}`);
+        }
+      }
+    }
+
+    if (!Array.isArray(clause.conditions) || clause.conditions.length === 0) {
+      errors.push('conditions must be a non-empty array');
+    } else {
+      clause.conditions.forEach((condition, index) => {
+        errors.push(...this.validate_condition(condition).map(error => `conditions[${index}]: ${error}`));
+      });
+    }
+
+    return errors;
+  }
+
+  private validate_condition(condition: PolicyCondition): string[] {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+      return ['condition must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    if (condition.flag_types !== undefined) {
+      if (!Array.isArray(condition.flag_types) || condition.flag_types.some(type => typeof type !== 'string' || type.length === 0)) {
+        errors.push('flag_types must be an array of non-empty strings');
+      }
+    }
+
+    for (const key of ['min_severity', 'max_severity'] as const) {
+      if (condition[key] !== undefined && !SEVERITY_ORDER.includes(condition[key] as SeverityLevel)) {
+        errors.push(`${key} must be one of: ${SEVERITY_ORDER.join(', ')}`);
+      }
+    }
+    if (condition.min_severity && condition.max_severity &&
+        SEVERITY_ORDER.indexOf(condition.min_severity) > SEVERITY_ORDER.indexOf(condition.max_severity)) {
+      errors.push('min_severity must not be above max_severity');
+    }
+
+    if (condition.min_confidence !== undefined &&
+        (typeof condition.min_confidence !== 'number' || condition.min_confidence < 0 || condition.min_confidence > 1)) {
+      errors.push('min_confidence must be a number between 0 and 1');
+    }
+
+    for (const key of ['min_count', 'max_count'] as const) {
+      if (condition[key] !== undefined && (!Number.isInteger(condition[key]) || (condition[key] as number) < 0)) {
+        errors.push(`${key} must be a non-negative integer`);
+      }
+    }
+    if (condition.max_count !== undefined && condition.max_count < (condition.min_count ?? 1)) {
+      errors.push('max_count must not be below min_count');
+    }
+
+    return errors;
+  }
+}
+
+function action_rank(action: PolicyAction): number {
+  return ACTION_ORDER.indexOf(action);
+}
+
+function type_matches(pattern: string, type: string): boolean {
+  return pattern.endsWith('*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
@@ -1,4 +1,5 @@
-import { ProfanityCheckResult } from '../types/content_moderation';
+import { ModerationSpan, ProfanityCheckResult } from '../types/content_moderation';
+import { NormalizedText, normalize_text, to_original_range } from '../utils/text_normalizer';
 
 const BadWordsFilter = require('bad-words');
 
@@ -18,29 +19,43 @@ export class ProfanityDetector {
     this.filter.removeWords('analytics', 'analysis', 'assistant', 'class', 'function');
   }
 
-  async check(content: string): Promise<ProfanityCheckResult> {
-    const clean_content = this.filter.clean(content);
-    const is_profane = clean_content !== content;
-
-    // Extract profane words by comparing original and cleaned content
-    const profane_words: string[] = [];
-    if (is_profane) {
-      // Simple approach: check for common profane words
-      const common_profane = ['fuck', 'shit', 'bitch', 'ass', 'damn', 'hell'];
-      for (const word of common_profane) {
-        if (content.toLowerCase().includes(word)) {
-          profane_words.push(word);
-        }
-      }
+  async check(content: string, normalized: NormalizedText = normalize_text(content)): Promise<ProfanityCheckResult> {
+    // Check word by word on the normalized text so "f u c k" and "sh1t" are caught
+    const spans: ModerationSpan[] = [];
+    for (const match of normalized.text.matchAll(/[\p{L}\p{N}_]+/gu)) {
+      if (match.index === undefined) continue;
+
+      const word = match[0];
+      // Stretched words keep two of each repeated letter, so also try them with every run squeezed
+      const squeezed = word.replace(/(.)\1+/gu, '$1');
+      if (!this.filter.isProfane(word) && !(squeezed !== word && this.filter.isProfane(squeezed))) continue;
+
+      const range = to_original_range(normalized, match.index, match.index + word.length);
+      spans.push({
+        ...range,
+        text: content.slice(range.start, range.end),
+        pattern: this.filter.isProfane(word) ? word : squeezed
+      });
     }
 
     return {
-      is_profane,
-      profane_words,
-      clean_text: clean_content
+      is_profane: spans.length > 0,
+      profane_words: [...new Set(spans.map(span => span.pattern))],
+      clean_text: this.mask_spans(content, spans),
+      spans
     };
   }
 
+  // Masks every visible character of each span, leaving the spacing of spaced-out words intact
+  private mask_spans(content: string, spans: ModerationSpan[]): string {
+    let clean_text = content;
+    for (const span of [...spans].reverse()) {
+      const masked = content.slice(span.start, span.end).replace(/\S/g, this.filter.placeHolder);
+      clean_text = clean_text.slice(0, span.start) + masked + clean_text.slice(span.end);
+    }
+    return clean_text;
+  }
+
   add_words(words: string[]): void {
     this.filter.addWords(...words);
   }
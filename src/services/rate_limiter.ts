@@ -0,0 +1,144 @@
+import { RateLimitConfig, RateLimitResult } from '../types/content_moderation';
+
+interface TokenBucket {
+  tokens: number;
+  last_refill: number;
+}
+
+interface SlidingWindow {
+  window_start: number;
+  current_count: number;
+  previous_count: number;
+}
+
+// How often idle identities are looked for
+const PRUNE_INTERVAL_MS = 60000;
+
+export class RateLimiter {
+  private default_limits: RateLimitConfig;
+  private buckets: Map<string, TokenBucket>;
+  private windows: Map<string, SlidingWindow>;
+  // When each identity's state is back to that of a new one, so it can be dropped
+  private idle_at: Map<string, number>;
+  private last_prune: number;
+
+  constructor(default_limits: RateLimitConfig) {
+    this.default_limits = default_limits;
+    this.buckets = new Map();
+    this.windows = new Map();
+    this.idle_at = new Map();
+    this.last_prune = Date.now();
+  }
+
+  // A token bucket absorbs short bursts while a sliding window enforces the longer-term quota
+  consume(identity: string, cost: number = 1, overrides: Partial<RateLimitConfig> = {}): RateLimitResult {
+    const limits: RateLimitConfig = { ...this.default_limits, ...overrides };
+    const now = Date.now();
+    this.prune(now);
+
+    const bucket = this.refill_bucket(identity, limits, now);
+    const window = this.advance_window(identity, limits, now);
+
+    // Weight the previous window by how much of it still overlaps the sliding window
+    const elapsed_in_window = now - window.window_start;
+    const previous_weight = (limits.quota_window_ms - elapsed_in_window) / limits.quota_window_ms;
+    const window_usage = window.previous_count * previous_weight + window.current_count;
+    const reset_seconds = Math.ceil((limits.quota_window_ms - elapsed_in_window) / 1000);
+
+    // The bucket never holds more than burst tokens, so a larger request waits for a full bucket
+    // and empties it; the quota is still charged the full cost
+    const bucket_cost = Math.min(cost, limits.burst);
+    const has_tokens = bucket.tokens >= bucket_cost;
+    const has_quota = window_usage + cost <= limits.quota;
+
+    if (has_tokens && has_quota) {
+      bucket.tokens -= bucket_cost;
+      window.current_count += cost;
+      this.idle_at.set(identity, this.get_idle_time(bucket, window, limits, now));
+
+      return {
+        allowed: true,
+        limit: limits.quota,
+        remaining: Math.max(0, Math.floor(limits.quota - window_usage - cost)),
+        reset_seconds,
+        burst_limit: limits.burst,
+        burst_remaining: Math.floor(bucket.tokens),
+        retry_after_seconds: 0
+      };
+    }
+
+    let retry_after_seconds = 0;
+    if (!has_tokens) {
+      retry_after_seconds = Math.ceil((bucket_cost - bucket.tokens) / limits.refill_per_second);
+    }
+    if (!has_quota) {
+      retry_after_seconds = Math.max(retry_after_seconds, reset_seconds);
+    }
+
+    this.idle_at.set(identity, this.get_idle_time(bucket, window, limits, now));
+
+    return {
+      allowed: false,
+      limit: limits.quota,
+      remaining: Math.max(0, Math.floor(limits.quota - window_usage)),
+      reset_seconds,
+      burst_limit: limits.burst,
+      burst_remaining: Math.floor(bucket.tokens),
+      retry_after_seconds: Math.max(1, retry_after_seconds)
+    };
+  }
+
+  reset(identity: string): void {
+    this.buckets.delete(identity);
+    this.windows.delete(identity);
+    this.idle_at.delete(identity);
+  }
+
+  // The bucket has refilled and the window no longer counts anything once both of its windows have passed
+  private get_idle_time(bucket: TokenBucket, window: SlidingWindow, limits: RateLimitConfig, now: number): number {
+    const refilled_at = now + ((limits.burst - bucket.tokens) / limits.refill_per_second) * 1000;
+    const forgotten_at = window.window_start + 2 * limits.quota_window_ms;
+    return Math.max(refilled_at, forgotten_at);
+  }
+
+  // Drops identities that haven't been seen since their state went back to that of a new one
+  private prune(now: number): void {
+    if (now - this.last_prune < PRUNE_INTERVAL_MS) return;
+    this.last_prune = now;
+
+    for (const [identity, idle_at] of this.idle_at) {
+      if (idle_at <= now) this.reset(identity);
+    }
+  }
+
+  private refill_bucket(identity: string, limits: RateLimitConfig, now: number): TokenBucket {
+    let bucket = this.buckets.get(identity);
+    if (!bucket) {
+      bucket = { tokens: limits.burst, last_refill: now };
+      this.buckets.set(identity, bucket);
+      return bucket;
+    }
+
+    const elapsed_seconds = (now - bucket.last_refill) / 1000;
+    bucket.tokens = Math.min(limits.burst, bucket.tokens + elapsed_seconds * limits.refill_per_second);
+    bucket.last_refill = now;
+    return bucket;
+  }
+
+  private advance_window(identity: string, limits: RateLimitConfig, now: number): SlidingWindow {
+    const window_start = Math.floor(now / limits.quota_window_ms) * limits.quota_window_ms;
+    let window = this.windows.get(identity);
+
+    if (!window) {
+      window = { window_start, current_count: 0, previous_count: 0 };
+      this.windows.set(identity, window);
+    } else if (window.window_start !== window_start) {
+      const is_adjacent = window.window_start === window_start - limits.quota_window_ms;
+      window.previous_count = is_adjacent ? window.current_count : 0;
+      window.current_count = 0;
+      window.window_start = window_start;
+    }
+
+    return window;
+  }
+}
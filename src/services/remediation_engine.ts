@@ -0,0 +1,175 @@
+import {
+  CharacterWeights,
+  ContentModerationRequest,
+  ContentType,
+  ModerationFlag,
+  RemediationChange,
+  RemediationResult
+} from '../types/content_moderation';
+import { SpamDetector } from '../services/spam_detector';
+import { SecretDetector } from '../services/secret_detector';
+import { ModerationEngine } from '../services/moderation_engine';
+import { count_characters, find_limit_offset } from '../utils/platform_text';
+
+const REDACTION_PLACEHOLDER = '[REDACTED]';
+const TRIM_SUFFIX = '…';
+
+// All-caps words of four or more letters, skipping our own [REDACTED] placeholder
+const SHOUTED_WORD_PATTERN = /(?<!\[)\b[A-Z]{4,}\b(?!\])/g;
+// Matches the text before a word that begins a sentence
+const SENTENCE_START_PATTERN = /(?:^|[.!?]\s+)$/;
+
+interface TextEdit {
+  start: number;
+  end: number;
+  type: 'profanity' | 'secret' | 'personal_info';
+  category?: string;
+}
+
+// Redactions win over masking where a profane word overlaps a credential or personal information
+const EDIT_PRIORITY: Record<TextEdit['type'], number> = { secret: 0, personal_info: 1, profanity: 2 };
+
+export class RemediationEngine {
+  private spam_detector: SpamDetector;
+  private secret_detector: SecretDetector;
+
+  constructor() {
+    this.spam_detector = new SpamDetector();
+    this.secret_detector = new SecretDetector();
+  }
+
+  // Only posts are rewritten: image content is base64, and masking or trimming a video or audio
+  // transcript would break its SRT or WebVTT timing lines
+  supports(request: ContentModerationRequest): boolean {
+    return request.content_type === ContentType.TEXT;
+  }
+
+  // Masks and redactions follow the flags the caller's engine raised, so detectors a tenant disabled,
+  // or whose threshold wasn't reached, leave the text alone. Shouting and punctuation are spam fixes
+  // and only run while the spam detector is enabled.
+  async remediate(request: ContentModerationRequest, moderation_engine: ModerationEngine): Promise<RemediationResult> {
+    const original_result = await moderation_engine.moderate_content(request);
+    const changes: RemediationChange[] = [];
+    let content = this.apply_flag_edits(request.content, original_result.flags, changes);
+
+    // Collapse shouting
+    const reduce_spam = moderation_engine.is_detector_enabled('spam');
+    const shouted_words = reduce_spam ? content.match(SHOUTED_WORD_PATTERN) || [] : [];
+    if (shouted_words.length > 0) {
+      content = this.reduce_shouting(content);
+      changes.push({
+        type: 'shouting_reduced',
+        description: 'Converted all-caps words to sentence case',
+        affected_text: [...new Set(shouted_words)]
+      });
+    }
+
+    // Collapse excessive punctuation
+    const collapsed = reduce_spam ? this.spam_detector.collapse_punctuation(content) : content;
+    if (collapsed !== content) {
+      changes.push({
+        type: 'punctuation_collapsed',
+        description: 'Collapsed repeated punctuation',
+        affected_text: content.match(/[!?]{2,}/g) || []
+      });
+      content = collapsed;
+    }
+
+    // Trim to the platform's character limit, counted the way the platform counts
+    const profile = moderation_engine.get_platform_profile(request.platform);
+    if (profile && count_characters(content, profile.character_weights) > profile.character_limit) {
+      const trimmed = this.trim_to_limit(content, profile.character_limit, profile.character_weights);
+      changes.push({
+        type: 'trimmed',
+        description: `Trimmed to the ${profile.character_limit} character limit`,
+        affected_text: [content.slice(trimmed.length - TRIM_SUFFIX.length)]
+      });
+      content = trimmed;
+    }
+
+    const remediated_result = content === request.content
+      ? original_result
+      : await moderation_engine.moderate_content({ ...request, content });
+
+    return {
+      original_content: request.content,
+      remediated_content: content,
+      changed: content !== request.content,
+      changes,
+      original_result,
+      remediated_result,
+      safe_to_post: remediated_result.safe_to_post
+    };
+  }
+
+  // Masks profanity and redacts credentials and personal information at the spans their flags point to
+  private apply_flag_edits(content: string, flags: ModerationFlag[], changes: RemediationChange[]): string {
+    const candidates: TextEdit[] = flags.flatMap(flag => {
+      if (flag.type !== 'profanity' && flag.type !== 'secret' && flag.type !== 'personal_info') return [];
+      if (flag.field !== undefined) return []; // Spans in other fields don't point into content
+      return (flag.spans || []).map(span => ({ start: span.start, end: span.end, type: flag.type as TextEdit['type'], category: span.category }));
+    });
+
+    // Keep the highest-priority edit wherever edits overlap
+    const edits: TextEdit[] = [];
+    for (const edit of candidates.sort((a, b) => EDIT_PRIORITY[a.type] - EDIT_PRIORITY[b.type] || a.start - b.start)) {
+      if (!edits.some(kept => edit.start < kept.end && kept.start < edit.end)) edits.push(edit);
+    }
+    if (edits.length === 0) return content;
+
+    const texts = (type: TextEdit['type']) => edits.filter(edit => edit.type === type).map(edit => content.slice(edit.start, edit.end));
+    const categories = (type: TextEdit['type']) => [...new Set(edits.filter(edit => edit.type === type && edit.category).map(edit => edit.category))].join(', ');
+
+    const profane_words = texts('profanity');
+    if (profane_words.length > 0) {
+      changes.push({ type: 'profanity_masked', description: 'Masked profane words', affected_text: [...new Set(profane_words)] });
+    }
+    const secrets = texts('secret');
+    if (secrets.length > 0) {
+      changes.push({
+        type: 'secret_redacted',
+        description: `Redacted credentials (${categories('secret')})`,
+        affected_text: secrets.map(secret => this.secret_detector.mask_secret(secret))
+      });
+    }
+    const personal_info = texts('personal_info');
+    if (personal_info.length > 0) {
+      changes.push({
+        type: 'personal_info_redacted',
+        description: `Redacted personal information (${categories('personal_info')})`,
+        affected_text: personal_info
+      });
+    }
+
+    // From the end so earlier offsets stay valid
+    let edited = content;
+    for (const edit of edits.sort((a, b) => b.start - a.start)) {
+      const replacement = edit.type === 'profanity' ? '*'.repeat(edit.end - edit.start) : REDACTION_PLACEHOLDER;
+      edited = edited.slice(0, edit.start) + replacement + edited.slice(edit.end);
+    }
+    return edited;
+  }
+
+  // Short all-caps words are usually acronyms (CEO, USA) and are left alone. Only the shouted words
+  // change: one that starts a sentence keeps its capital, and other sentences are left as written.
+  private reduce_shouting(content: string): string {
+    return content.replace(SHOUTED_WORD_PATTERN, (word: string, offset: number) => {
+      const lowered = word.toLowerCase();
+      const starts_sentence = SENTENCE_START_PATTERN.test(content.slice(0, offset));
+      return starts_sentence ? word[0] + lowered.slice(1) : lowered;
+    });
+  }
+
+  private trim_to_limit(content: string, character_limit: number, weights?: CharacterWeights): string {
+    const max_length = find_limit_offset(content, character_limit - TRIM_SUFFIX.length, weights);
+    let trimmed = content.slice(0, max_length);
+
+    // Prefer to cut at a word boundary when one is reasonably close
+    const last_space = trimmed.lastIndexOf(' ');
+    if (last_space > max_length * 0.8) {
+      trimmed = trimmed.slice(0, last_space);
+    }
+
+    return trimmed.trimEnd() + TRIM_SUFFIX;
+  }
+}
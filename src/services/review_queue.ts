@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import {
+  ContentModerationRequest,
+  ContentModerationResponse,
+  ContentType,
+  ReviewAction,
+  ReviewItem,
+  ReviewQueueQuery,
+  ReviewStatus
+} from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { clone, read_json_file, write_json_file } from '../utils/json_file';
+import { SecretDetector } from './secret_detector';
+
+interface ReviewQueueFile {
+  items: ReviewItem[];
+}
+
+// Which statuses each action may be taken from
+const ALLOWED_TRANSITIONS: Record<ReviewAction, ReviewStatus[]> = {
+  [ReviewAction.CLAIM]: [ReviewStatus.PENDING, ReviewStatus.ESCALATED],
+  [ReviewAction.APPROVE]: [ReviewStatus.CLAIMED],
+  [ReviewAction.REJECT]: [ReviewStatus.CLAIMED],
+  [ReviewAction.ESCALATE]: [ReviewStatus.CLAIMED]
+};
+
+const RESULTING_STATUS: Record<ReviewAction, ReviewStatus> = {
+  [ReviewAction.CLAIM]: ReviewStatus.CLAIMED,
+  [ReviewAction.APPROVE]: ReviewStatus.APPROVED,
+  [ReviewAction.REJECT]: ReviewStatus.REJECTED,
+  [ReviewAction.ESCALATE]: ReviewStatus.ESCALATED
+};
+
+const secret_detector = new SecretDetector();
+
+export class ReviewQueue {
+  private file_path: string;
+  private items: Map<string, ReviewItem>;
+
+  constructor(file_path: string) {
+    this.file_path = file_path;
+    this.items = new Map();
+
+    const data = read_json_file<ReviewQueueFile>(this.file_path, { items: [] });
+    for (const item of data.items || []) {
+      this.items.set(item.id, item);
+    }
+  }
+
+  private persist(): void {
+    const data: ReviewQueueFile = { items: [...this.items.values()] };
+    write_json_file(this.file_path, data);
+  }
+
+  // Images are queued by hash with their analysis rather than their base64, which would bloat the queue file.
+  // Content flagged for leaked secrets is queued with them masked, as reviewers only need to see where they were.
+  enqueue(request: ContentModerationRequest, response: ContentModerationResponse, tenant_id?: string): ReviewItem {
+    const now = new Date().toISOString();
+    const is_image = request.content_type === ContentType.IMAGE;
+    const item: ReviewItem = {
+      id: crypto.randomUUID(),
+      request_id: response.request_id,
+      tenant_id,
+      user_id: request.user_id,
+      platform: request.platform,
+      content_type: request.content_type,
+      content: is_image ? '' : this.queued_text(request.content, response),
+      content_hash: is_image ? crypto.createHash('sha256').update(request.content).digest('hex') : undefined,
+      image: response.image,
+      flags: response.flags,
+      overall_severity: response.overall_severity,
+      automated_safe_to_post: response.safe_to_post,
+      config_version: response.config_version,
+      status: ReviewStatus.PENDING,
+      history: [],
+      created_at: now,
+      updated_at: now
+    };
+
+    this.items.set(item.id, item);
+    this.persist();
+    return clone(item);
+  }
+
+  private queued_text(content: string, response: ContentModerationResponse): string {
+    const has_secrets = response.flags.some(flag => flag.type === 'secret');
+    return has_secrets ? secret_detector.mask_secrets(content) : content;
+  }
+
+  get_item(item_id: string): ReviewItem | undefined {
+    const item = this.items.get(item_id);
+    return item ? clone(item) : undefined;
+  }
+
+  list_items(query: ReviewQueueQuery): { items: ReviewItem[]; total: number; offset: number; limit: number } {
+    const matches = [...this.items.values()].filter(item => {
+      // Callers without a tenant only see items that have none
+      if (item.tenant_id !== query.tenant_id) return false;
+      if (query.status !== undefined && item.status !== query.status) return false;
+      if (query.platform !== undefined && item.platform !== query.platform) return false;
+      if (query.assigned_to !== undefined && item.assigned_to !== query.assigned_to) return false;
+      return true;
+    });
+
+    return {
+      items: matches.slice(query.offset, query.offset + query.limit).map(item => clone(item)),
+      total: matches.length,
+      offset: query.offset,
+      limit: query.limit
+    };
+  }
+
+  apply_action(item_id: string, action: ReviewAction, reviewer: string, notes?: string): ReviewItem {
+    const item = this.items.get(item_id);
+    if (!item) {
+      throw new Error(NOTIFICATION_MESSAGES.REVIEW_NOT_FOUND);
+    }
+
+    if (!ALLOWED_TRANSITIONS[action].includes(item.status)) {
+      throw new Error(NOTIFICATION_MESSAGES.REVIEW_INVALID_TRANSITION);
+    }
+
+    // Only the reviewer holding the claim may decide on an item
+    if (action !== ReviewAction.CLAIM && item.assigned_to !== reviewer) {
+      throw new Error(NOTIFICATION_MESSAGES.REVIEW_NOT_ASSIGNED);
+    }
+
+    const now = new Date().toISOString();
+    item.status = RESULTING_STATUS[action];
+    item.updated_at = now;
+    item.history.push({ action, reviewer, notes, timestamp: now });
+
+    if (action === ReviewAction.CLAIM) {
+      item.assigned_to = reviewer;
+    } else if (action === ReviewAction.ESCALATE) {
+      item.assigned_to = undefined;
+    } else {
+      item.decision = {
+        approved: action === ReviewAction.APPROVE,
+        reviewer,
+        notes,
+        decided_at: now
+      };
+    }
+
+    this.persist();
+    return clone(item);
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  ContentModerationRequest,
+  ContentType,
+  ModerationRule,
+  PlatformType,
+  RuleCondition,
+  SeverityLevel
+} from '../types/content_moderation';
+import { RuleEngine } from './rule_engine';
+
+function rule(condition: RuleCondition, overrides: Partial<ModerationRule> = {}): ModerationRule {
+  return {
+    id: 'test',
+    name: 'Test rule',
+    description: 'Test rule',
+    condition,
+    severity: SeverityLevel.MEDIUM,
+    enabled: true,
+    platforms: [PlatformType.TWITTER],
+    ...overrides
+  };
+}
+
+function request(content: string, overrides: Partial<ContentModerationRequest> = {}): ContentModerationRequest {
+  return { content, content_type: ContentType.TEXT, platform: PlatformType.TWITTER, ...overrides };
+}
+
+// The matched clause of the rule's flag, or undefined when the rule didn't match
+async function matched_clause(condition: RuleCondition, content: string, overrides: Partial<ContentModerationRequest> = {}): Promise<string | undefined> {
+  const flags = await new RuleEngine([rule(condition)]).check_rules(request(content, overrides));
+  return flags[0]?.matched_clause;
+}
+
+describe('RuleEngine conditions', () => {
+  it('matches phrases as whole words unless whole_word is false', async () => {
+    expect(await matched_clause({ phrase: 'ass' }, 'First class seats')).toBeUndefined();
+    expect(await matched_clause({ phrase: 'ass', whole_word: false }, 'First class seats')).toBe('phrase "ass"');
+  });
+
+  it('matches phrases through disguised spellings and reports spans at their original offsets', async () => {
+    const flags = await new RuleEngine([rule({ phrase: 'free money' })]).check_rules(request('Get fr3e m0ney now'));
+
+    expect(flags[0].spans).toMatchObject([{ start: 4, end: 14, text: 'fr3e m0ney' }]);
+  });
+
+  it('requires every child of all and reports their clauses together', async () => {
+    const condition: RuleCondition = { all: [{ phrase: 'crypto' }, { regex: '\\bdm me\\b' }] };
+
+    expect(await matched_clause(condition, 'crypto tips, dm me')).toBe('phrase "crypto" AND regex /\\bdm me\\b/');
+    expect(await matched_clause(condition, 'crypto tips for everyone')).toBeUndefined();
+  });
+
+  it('reports only the children of any that matched', async () => {
+    const condition: RuleCondition = { any: [{ phrase: 'giveaway' }, { phrase: 'airdrop' }, { phrase: 'raffle' }] };
+
+    expect(await matched_clause(condition, 'Giveaway and airdrop today')).toBe('(phrase "giveaway" OR phrase "airdrop")');
+    expect(await matched_clause(condition, 'Nothing to see')).toBeUndefined();
+  });
+
+  it('holds not when its child does not match', async () => {
+    const condition: RuleCondition = { all: [{ phrase: 'discount' }, { not: { metadata: 'verified', equals: true } }] };
+
+    expect(await matched_clause(condition, 'Big discount', { metadata: { verified: false } }))
+      .toBe('phrase "discount" AND NOT metadata.verified = true');
+    expect(await matched_clause(condition, 'Big discount', { metadata: { verified: true } })).toBeUndefined();
+  });
+
+  it('pairs near phrases in either order with at most within words between them', async () => {
+    const condition: RuleCondition = { near: ['wire', 'transfer'], within: 2 };
+
+    expect(await matched_clause(condition, 'Send a wire money transfer')).toBe('"wire" within 2 words of "transfer"');
+    expect(await matched_clause(condition, 'A transfer by wire')).toBe('"wire" within 2 words of "transfer"');
+    expect(await matched_clause(condition, 'Send a wire of any amount as a transfer')).toBeUndefined();
+  });
+
+  it('reads nested metadata with equals, one_of and exists', async () => {
+    const metadata = { author: { country: 'DE', followers: 12 } };
+
+    expect(await matched_clause({ metadata: 'author.country', one_of: ['DE', 'AT'] }, 'Hello', { metadata })).toBe('metadata.author.country in ["DE","AT"]');
+    expect(await matched_clause({ metadata: 'author.followers', equals: 12 }, 'Hello', { metadata })).toBe('metadata.author.followers = 12');
+    expect(await matched_clause({ metadata: 'author.handle', exists: false }, 'Hello', { metadata })).toBe('metadata.author.handle is missing');
+    expect(await matched_clause({ metadata: 'author.handle', exists: true }, 'Hello', { metadata })).toBeUndefined();
+  });
+
+  it('checks the request content type', async () => {
+    const condition: RuleCondition = { content_types: [ContentType.VIDEO] };
+
+    expect(await matched_clause(condition, 'Hello')).toBeUndefined();
+    expect(await matched_clause(condition, 'Hello', { content_type: ContentType.VIDEO })).toBe('content_type in [video]');
+  });
+
+  it('reports a label instead of the clauses it stands for', async () => {
+    const condition: RuleCondition = { label: 'Payment scam', all: [{ phrase: 'gift card' }, { phrase: 'urgent' }] };
+
+    expect(await matched_clause(condition, 'Urgent: buy a gift card')).toBe('Payment scam');
+  });
+
+  it('skips disabled rules and rules for other platforms', async () => {
+    const engine = new RuleEngine([
+      rule({ phrase: 'hello' }, { id: 'disabled', enabled: false }),
+      rule({ phrase: 'hello' }, { id: 'facebook', platforms: [PlatformType.FACEBOOK] })
+    ]);
+
+    expect(await engine.check_rules(request('hello'))).toEqual([]);
+  });
+});
+
+describe('RuleEngine.validate_rule conditions', () => {
+  const engine = new RuleEngine();
+
+  it('accepts a well-formed condition tree', () => {
+    const condition: RuleCondition = {
+      any: [{ all: [{ phrase: 'crypto' }, { near: ['dm', 'me'], within: 1 }] }, { not: { metadata: 'verified', exists: true } }]
+    };
+
+    expect(engine.validate_rule(rule(condition))).toEqual([]);
+  });
+
+  it('requires exactly one operator per condition', () => {
+    expect(engine.validate_rule(rule({ phrase: 'a', regex: 'b' }))).toEqual([
+      'condition must use exactly one of: all, any, not, phrase, regex, near, metadata, content_types'
+    ]);
+  });
+
+  it('names the path of each invalid child', () => {
+    const errors = engine.validate_rule(rule({ all: [{ phrase: 'ok' }, { regex: '(' }, { near: ['a', 'b'] }, { metadata: 'x' }] }));
+
+    expect(errors).toEqual([
+      'condition.all[1].regex must be a valid regular expression',
+      'condition.all[2].within must be a non-negative integer',
+      'condition.all[3] needs equals, one_of or exists'
+    ]);
+  });
+
+  it('rejects trees nested too deep', () => {
+    let condition: RuleCondition = { phrase: 'deep' };
+    for (let i = 0; i < 10; i++) condition = { not: condition };
+
+    expect(engine.validate_rule(rule(condition))).toEqual([
+      'condition.not.not.not.not.not.not.not.not.not.not: conditions can be nested at most 10 deep'
+    ]);
+  });
+});
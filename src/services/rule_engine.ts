@@ -1,10 +1,39 @@
 import {
   ContentModerationRequest,
+  ContentType,
   ModerationFlag,
   ModerationRule,
+  ModerationSpan,
+  RuleCondition,
   SeverityLevel,
   PlatformType
 } from '../types/content_moderation';
+import { find_regex_spans, sort_spans } from '../utils/spans';
+import { NormalizedText, find_normalized_phrase_spans, normalize_text } from '../utils/text_normalizer';
+
+const RULE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const DEFAULT_RULE_CONFIDENCE = 0.8;
+
+const CONDITION_OPERATORS: Array<keyof RuleCondition> = ['all', 'any', 'not', 'phrase', 'regex', 'near', 'metadata', 'content_types'];
+
+// Deeper trees are almost certainly generated by mistake
+const MAX_CONDITION_DEPTH = 10;
+
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+interface ConditionResult {
+  matched: boolean;
+  spans: ModerationSpan[];
+  clauses: string[];
+}
+
+// Everything a rule's conditions can look at for one request
+interface RuleContext {
+  request: ContentModerationRequest;
+  normalized: NormalizedText;
+  rule: ModerationRule;
+}
 
 export class RuleEngine {
   private rules: ModerationRule[];
@@ -13,7 +42,10 @@ export class RuleEngine {
     this.rules = rules;
   }
 
-  async check_rules(request: ContentModerationRequest): Promise<ModerationFlag[]> {
+  async check_rules(
+    request: ContentModerationRequest,
+    normalized: NormalizedText = normalize_text(request.content)
+  ): Promise<ModerationFlag[]> {
     const flags: ModerationFlag[] = [];
 
     for (const rule of this.rules) {
@@ -22,58 +54,175 @@ export class RuleEngine {
       // Check if rule applies to this platform
       if (!rule.platforms.includes(request.platform)) continue;
 
-      const rule_flags = this.check_single_rule(request, rule);
+      const rule_flags = this.check_single_rule(request, rule, normalized);
       flags.push(...rule_flags);
     }
 
     return flags;
   }
 
-  private check_single_rule(request: ContentModerationRequest, rule: ModerationRule): ModerationFlag[] {
+  private check_single_rule(request: ContentModerationRequest, rule: ModerationRule, normalized: NormalizedText): ModerationFlag[] {
     const flags: ModerationFlag[] = [];
-    const lower_content = request.content.toLowerCase();
-
-    for (const pattern of rule.patterns) {
-      // Check if pattern is a regex or simple string
-      let is_match = false;
-      let matched_text = '';
-
-      if (pattern.startsWith('/') && pattern.endsWith('/')) {
-        // Treat as regex
-        try {
-          const regex = new RegExp(pattern.slice(1, -1), 'gi');
-          const matches = request.content.match(regex);
-          if (matches) {
-            is_match = true;
-            matched_text = matches.join(', ');
-          }
-        } catch (error) {
-          console.warn(`Invalid regex pattern: ${pattern}`);
-          continue;
-        }
-      } else {
-        // Treat as simple string
-        if (lower_content.includes(pattern.toLowerCase())) {
-          is_match = true;
-          matched_text = pattern;
-        }
+    const context: RuleContext = { request, normalized, rule };
+
+    for (const pattern of rule.patterns || []) {
+      const spans = this.match_pattern(context, pattern);
+      if (spans.length > 0) {
+        flags.push(this.create_flag(rule, spans, `pattern "${pattern}"`));
       }
+    }
 
-      if (is_match) {
-        flags.push({
-          type: `custom_rule_${rule.id}`,
-          severity: rule.severity,
-          confidence: 0.8, // Default confidence for custom rules
-          description: rule.description,
-          flagged_text: matched_text,
-          suggestion: `Content matches rule: ${rule.name}`
-        });
+    if (rule.condition) {
+      const result = this.evaluate_condition(context, rule.condition);
+      if (result.matched) {
+        flags.push(this.create_flag(rule, sort_spans(result.spans), result.clauses.join(' AND ')));
       }
     }
 
     return flags;
   }
 
+  private create_flag(rule: ModerationRule, spans: ModerationSpan[], matched_clause: string): ModerationFlag {
+    return {
+      type: `custom_rule_${rule.id}`,
+      severity: rule.severity,
+      confidence: rule.confidence ?? DEFAULT_RULE_CONFIDENCE,
+      description: rule.description,
+      flagged_text: spans.map(span => span.text).join(', ') || undefined,
+      suggestion: rule.suggestion || `Content matches rule: ${rule.name}`,
+      spans,
+      matched_clause
+    };
+  }
+
+  private match_pattern(context: RuleContext, pattern: string): ModerationSpan[] {
+    if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) {
+      // Regexes see the raw content
+      return this.match_regex(context, pattern.slice(1, -1), pattern);
+    }
+    // Plain strings are matched against the normalized text
+    return this.match_phrase(context, pattern, context.rule.whole_word === true);
+  }
+
+  private match_regex(context: RuleContext, source: string, pattern: string): ModerationSpan[] {
+    try {
+      const regex = new RegExp(source, 'gi');
+      return this.apply_exceptions(context, find_regex_spans(context.request.content, regex, { pattern, rule_id: context.rule.id }));
+    } catch (error) {
+      console.warn(`Invalid regex pattern: ${pattern}`);
+      return [];
+    }
+  }
+
+  private match_phrase(context: RuleContext, phrase: string, whole_word: boolean): ModerationSpan[] {
+    let spans = find_normalized_phrase_spans(context.normalized, phrase, { rule_id: context.rule.id });
+    if (whole_word) {
+      // Stops "ass" from matching inside "class"
+      spans = spans.filter(span => is_whole_word(context.request.content, span));
+    }
+    return this.apply_exceptions(context, spans);
+  }
+
+  // Drops matches that sit inside an exception phrase or an allowlisted word
+  private apply_exceptions(context: RuleContext, spans: ModerationSpan[]): ModerationSpan[] {
+    const { rule, normalized, request } = context;
+    if (spans.length === 0 || (!rule.exceptions?.length && !rule.allowlist?.length)) return spans;
+
+    const exception_spans = (rule.exceptions || []).flatMap(phrase => find_normalized_phrase_spans(normalized, phrase));
+    const allowlist = new Set((rule.allowlist || []).map(word => normalize_text(word).text.trim()));
+
+    return spans.filter(span => {
+      if (exception_spans.some(exception => exception.start <= span.start && span.end <= exception.end)) return false;
+      const word = enclosing_word(request.content, span);
+      return !allowlist.has(word.toLowerCase()) && !allowlist.has(normalize_text(word).text);
+    });
+  }
+
+  private evaluate_condition(context: RuleContext, condition: RuleCondition): ConditionResult {
+    if (condition.all) {
+      const spans: ModerationSpan[] = [];
+      const clauses: string[] = [];
+      for (const child of condition.all) {
+        const result = this.evaluate_condition(context, child);
+        if (!result.matched) return no_match();
+        spans.push(...result.spans);
+        clauses.push(...result.clauses);
+      }
+      return { matched: true, spans, clauses: condition.label ? [condition.label] : clauses };
+    }
+
+    if (condition.any) {
+      const results = condition.any.map(child => this.evaluate_condition(context, child)).filter(result => result.matched);
+      if (results.length === 0) return no_match();
+      return {
+        matched: true,
+        spans: results.flatMap(result => result.spans),
+        clauses: condition.label ? [condition.label] : [group(results.map(result => group(result.clauses, ' AND ')), ' OR ')]
+      };
+    }
+
+    if (condition.not) {
+      const result = this.evaluate_condition(context, condition.not);
+      return result.matched ? no_match() : { matched: true, spans: [], clauses: [describe_condition(condition)] };
+    }
+
+    const spans = this.match_leaf(context, condition);
+    if (spans === null || (Array.isArray(spans) && spans.length === 0)) return no_match();
+    return { matched: true, spans: spans === true ? [] : spans, clauses: [describe_condition(condition)] };
+  }
+
+  // Text conditions return their matches; request conditions return true when they hold, null when they don't
+  private match_leaf(context: RuleContext, condition: RuleCondition): ModerationSpan[] | true | null {
+    const { request } = context;
+
+    if (condition.phrase !== undefined) {
+      return this.match_phrase(context, condition.phrase, condition.whole_word !== false);
+    }
+
+    if (condition.regex !== undefined) {
+      return this.match_regex(context, condition.regex, `/${condition.regex}/`);
+    }
+
+    if (condition.near) {
+      return this.match_near(context, condition.near, condition.within ?? 0, condition.whole_word !== false);
+    }
+
+    if (condition.metadata !== undefined) {
+      const value = get_path(request.metadata, condition.metadata);
+      if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return null;
+      if (condition.equals !== undefined && value !== condition.equals) return null;
+      if (condition.one_of !== undefined && !condition.one_of.includes(value as string | number | boolean)) return null;
+      return true;
+    }
+
+    if (condition.content_types) {
+      return condition.content_types.includes(request.content_type) ? true : null;
+    }
+
+    return null;
+  }
+
+  // Pairs of the two phrases, in either order, with at most `within` words between them
+  private match_near(context: RuleContext, [first, second]: [string, string], within: number, whole_word: boolean): ModerationSpan[] {
+    const first_spans = this.match_phrase(context, first, whole_word);
+    const second_spans = this.match_phrase(context, second, whole_word);
+    const content = context.request.content;
+    const matches: ModerationSpan[] = [];
+
+    for (const a of first_spans) {
+      for (const b of second_spans) {
+        const [left, right] = a.start <= b.start ? [a, b] : [b, a];
+        if (right.start < left.end) continue;
+        const words_between = (content.slice(left.end, right.start).match(/[\p{L}\p{N}]+/gu) || []).length;
+        if (words_between <= within) {
+          matches.push(a, b);
+        }
+      }
+    }
+
+    return [...new Map(matches.map(span => [`${span.start}:${span.end}`, span])).values()];
+  }
+
   update_rules(new_rules: ModerationRule[]): void {
     this.rules = new_rules;
   }
@@ -82,6 +231,16 @@ export class RuleEngine {
     this.rules.push(rule);
   }
 
+  update_rule(rule_id: string, updates: Partial<ModerationRule>): ModerationRule | undefined {
+    const index = this.rules.findIndex(rule => rule.id === rule_id);
+    if (index === -1) return undefined;
+
+    // The id is immutable; it is what callers and flags refer to
+    const updated_rule: ModerationRule = { ...this.rules[index], ...updates, id: rule_id };
+    this.rules[index] = updated_rule;
+    return updated_rule;
+  }
+
   remove_rule(rule_id: string): boolean {
     const initial_length = this.rules.length;
     this.rules = this.rules.filter(rule => rule.id !== rule_id);
@@ -121,4 +280,214 @@ export class RuleEngine {
   get_enabled_rules(): ModerationRule[] {
     return this.rules.filter(rule => rule.enabled);
   }
-} 
\ No newline at end of file
+
+  // platforms lists every platform with a profile, including ones added at runtime
+  validate_rule(rule: Partial<ModerationRule>, platforms: string[] = Object.values(PlatformType)): string[] {
+    const errors: string[] = [];
+
+    if (typeof rule.id !== 'string' || !RULE_ID_PATTERN.test(rule.id)) {
+      errors.push('id must be a non-empty string of letters, digits, "_" or "-"');
+    }
+
+    if (typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+      errors.push('name must be a non-empty string');
+    }
+
+    if (typeof rule.description !== 'string') {
+      errors.push('description must be a string');
+    }
+
+    if (rule.patterns === undefined && rule.condition === undefined) {
+      errors.push('a rule needs patterns, a condition or both');
+    }
+
+    if (rule.patterns !== undefined) {
+      if (!Array.isArray(rule.patterns) || rule.patterns.length === 0) {
+        errors.push('patterns must be a non-empty array of strings');
+      } else {
+        for (const pattern of rule.patterns) {
+          if (typeof pattern !== 'string' || pattern.length === 0) {
+            errors.push('patterns must only contain non-empty strings');
+            continue;
+          }
+
+          if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/') && !is_valid_regex(pattern.slice(1, -1))) {
+            errors.push(`Invalid regex pattern: ${pattern}`);
+          }
+        }
+      }
+    }
+
+    if (rule.condition !== undefined) {
+      errors.push(...this.validate_condition(rule.condition, 'condition', 1));
+    }
+
+    if (rule.whole_word !== undefined && typeof rule.whole_word !== 'boolean') {
+      errors.push('whole_word must be a boolean');
+    }
+
+    for (const key of ['exceptions', 'allowlist'] as const) {
+      const phrases = rule[key];
+      if (phrases !== undefined && (!Array.isArray(phrases) || phrases.some(phrase => typeof phrase !== 'string' || phrase.trim().length === 0))) {
+        errors.push(`${key} must be an array of non-empty strings`);
+      }
+    }
+
+    if (rule.confidence !== undefined && (typeof rule.confidence !== 'number' || rule.confidence < 0 || rule.confidence > 1)) {
+      errors.push('confidence must be a number between 0 and 1');
+    }
+
+    if (rule.suggestion !== undefined && typeof rule.suggestion !== 'string') {
+      errors.push('suggestion must be a string');
+    }
+
+    if (!Object.values(SeverityLevel).includes(rule.severity as SeverityLevel)) {
+      errors.push(`severity must be one of: ${Object.values(SeverityLevel).join(', ')}`);
+    }
+
+    if (typeof rule.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    }
+
+    if (!Array.isArray(rule.platforms) || rule.platforms.length === 0) {
+      errors.push('platforms must be a non-empty array');
+    } else {
+      const invalid_platforms = rule.platforms.filter(platform => !platforms.includes(platform));
+      if (invalid_platforms.length > 0) {
+        errors.push(`Invalid platforms: ${invalid_platforms.join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private validate_condition(condition: RuleCondition, path: string, depth: number): string[] {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+      return [`${path} must be an object`];
+    }
+    if (depth > MAX_CONDITION_DEPTH) {
+      return [`${path}: conditions can be nested at most ${MAX_CONDITION_DEPTH} deep`];
+    }
+
+    const operators = CONDITION_OPERATORS.filter(operator => condition[operator] !== undefined);
+    if (operators.length !== 1) {
+      return [`${path} must use exactly one of: ${CONDITION_OPERATORS.join(', ')}`];
+    }
+
+    const errors: string[] = [];
+    const is_text = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+
+    if (condition.label !== undefined && typeof condition.label !== 'string') {
+      errors.push(`${path}.label must be a string`);
+    }
+
+    switch (operators[0]) {
+      case 'all':
+      case 'any': {
+        const children = condition[operators[0]];
+        if (!Array.isArray(children) || children.length === 0) {
+          errors.push(`${path}.${operators[0]} must be a non-empty array of conditions`);
+        } else {
+          children.forEach((child, index) => errors.push(...this.validate_condition(child, `${path}.${operators[0]}[${index}]`, depth + 1)));
+        }
+        break;
+      }
+      case 'not':
+        errors.push(...this.validate_condition(condition.not as RuleCondition, `${path}.not`, depth + 1));
+        break;
+      case 'phrase':
+        if (!is_text(condition.phrase)) errors.push(`${path}.phrase must be a non-empty string`);
+        break;
+      case 'regex':
+        if (!is_text(condition.regex) || !is_valid_regex(condition.regex as string)) {
+          errors.push(`${path}.regex must be a valid regular expression`);
+        }
+        break;
+      case 'near':
+        if (!Array.isArray(condition.near) || condition.near.length !== 2 || !condition.near.every(is_text)) {
+          errors.push(`${path}.near must be a pair of non-empty phrases`);
+        }
+        if (!Number.isInteger(condition.within) || (condition.within as number) < 0) {
+          errors.push(`${path}.within must be a non-negative integer`);
+        }
+        break;
+      case 'metadata':
+        if (!is_text(condition.metadata)) errors.push(`${path}.metadata must be a non-empty key`);
+        if (condition.exists !== undefined && typeof condition.exists !== 'boolean') {
+          errors.push(`${path}.exists must be a boolean`);
+        }
+        if (condition.one_of !== undefined && !Array.isArray(condition.one_of)) {
+          errors.push(`${path}.one_of must be an array`);
+        }
+        if (condition.equals === undefined && condition.one_of === undefined && condition.exists === undefined) {
+          errors.push(`${path} needs equals, one_of or exists`);
+        }
+        break;
+      case 'content_types': {
+        const content_types = condition.content_types;
+        if (!Array.isArray(content_types) || content_types.length === 0 ||
+            content_types.some(content_type => !Object.values(ContentType).includes(content_type))) {
+          errors.push(`${path}.content_types must be a non-empty array of: ${Object.values(ContentType).join(', ')}`);
+        }
+        break;
+      }
+    }
+
+    if (condition.whole_word !== undefined && typeof condition.whole_word !== 'boolean') {
+      errors.push(`${path}.whole_word must be a boolean`);
+    }
+
+    return errors;
+  }
+}
+
+function no_match(): ConditionResult {
+  return { matched: false, spans: [], clauses: [] };
+}
+
+function group(clauses: string[], separator: string): string {
+  return clauses.length > 1 ? `(${clauses.join(separator)})` : clauses[0];
+}
+
+function describe_condition(condition: RuleCondition): string {
+  if (condition.label) return condition.label;
+  if (condition.not) return `NOT ${describe_condition(condition.not)}`;
+  if (condition.phrase !== undefined) return `phrase "${condition.phrase}"`;
+  if (condition.regex !== undefined) return `regex /${condition.regex}/`;
+  if (condition.near) return `"${condition.near[0]}" within ${condition.within ?? 0} words of "${condition.near[1]}"`;
+  if (condition.metadata !== undefined) {
+    if (condition.equals !== undefined) return `metadata.${condition.metadata} = ${JSON.stringify(condition.equals)}`;
+    if (condition.one_of !== undefined) return `metadata.${condition.metadata} in ${JSON.stringify(condition.one_of)}`;
+    return `metadata.${condition.metadata} ${condition.exists ? 'exists' : 'is missing'}`;
+  }
+  if (condition.content_types) return `content_type in [${condition.content_types.join(', ')}]`;
+  return 'condition';
+}
+
+function is_whole_word(content: string, span: ModerationSpan): boolean {
+  return !WORD_CHARACTER.test(content.charAt(span.start - 1)) && !WORD_CHARACTER.test(content.charAt(span.end));
+}
+
+function enclosing_word(content: string, span: ModerationSpan): string {
+  let start = span.start;
+  let end = span.end;
+  while (start > 0 && WORD_CHARACTER.test(content.charAt(start - 1))) start--;
+  while (end < content.length && WORD_CHARACTER.test(content.charAt(end))) end++;
+  return content.slice(start, end);
+}
+
+function get_path(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+function is_valid_regex(source: string): boolean {
+  try {
+    new RegExp(source, 'gi');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,179 @@
+import { ModerationSpan } from '../types/content_moderation';
+import { find_regex_spans, sort_spans } from '../utils/spans';
+
+export interface SecretFinding {
+  type: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+export interface SecretCheckResult {
+  has_secrets: boolean;
+  confidence: number;
+  findings: SecretFinding[];
+  secret_types: string[];
+  spans: ModerationSpan[];
+}
+
+interface SecretPattern {
+  type: string;
+  pattern: RegExp;
+  confidence: number;
+}
+
+// Words that must appear near a run of plain words before it is treated as a wallet seed phrase
+const SEED_PHRASE_CONTEXT = /\b(?:seed|mnemonic|recovery phrase|secret phrase|backup phrase|wallet|metamask|ledger)\b/i;
+const SEED_PHRASE_LENGTHS = [12, 15, 18, 21, 24];
+
+// Candidate tokens for the entropy check; slashes are excluded so ordinary URL paths don't qualify
+const HIGH_ENTROPY_TOKEN = /(?<![A-Za-z0-9+=_-])[A-Za-z0-9+=_-]{24,}(?![A-Za-z0-9+=_-])/g;
+const HEX_ENTROPY_THRESHOLD = 3.0;
+const BASE64_ENTROPY_THRESHOLD = 4.0;
+
+export class SecretDetector {
+  private secret_patterns: SecretPattern[];
+
+  constructor() {
+    this.secret_patterns = [];
+    this.initialize_patterns();
+  }
+
+  private initialize_patterns(): void {
+    this.secret_patterns = [
+      // Cloud provider access keys
+      { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA)[A-Z0-9]{16}\b/g, confidence: 0.95 },
+      { type: 'aws_secret_key', pattern: /\baws.{0,20}secret.{0,20}[:=]\s*["']?[A-Za-z0-9/+=]{40}\b/gi, confidence: 0.95 },
+      { type: 'gcp_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g, confidence: 0.9 },
+      { type: 'gcp_service_account', pattern: /"type"\s*:\s*"service_account"/g, confidence: 0.9 },
+      { type: 'azure_storage_key', pattern: /AccountKey=[A-Za-z0-9+/]{86}==/g, confidence: 0.95 },
+
+      // Service tokens
+      { type: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g, confidence: 0.95 },
+      { type: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, confidence: 0.95 },
+      { type: 'stripe_key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g, confidence: 0.95 },
+
+      // Bearer and JWT tokens
+      { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g, confidence: 0.9 },
+      { type: 'bearer_token', pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/gi, confidence: 0.85 },
+
+      // Private key blocks, with or without the END line
+      {
+        type: 'private_key',
+        pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----)?/g,
+        confidence: 0.99
+      },
+
+      // Webhook URLs that embed their token
+      { type: 'webhook_url', pattern: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9/_-]+/g, confidence: 0.95 },
+      { type: 'webhook_url', pattern: /https:\/\/(?:canary\.|ptb\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[A-Za-z0-9_-]+/g, confidence: 0.95 },
+      { type: 'webhook_url', pattern: /https:\/\/[a-z0-9.-]+\.webhook\.office\.com\/[^\s]+/gi, confidence: 0.9 },
+      {
+        type: 'webhook_url',
+        pattern: /https?:\/\/[^\s?]+\?(?:[^\s]*&)?(?:token|access_token|api_key|apikey|key|secret|sig|signature)=[^\s&]{12,}[^\s]*/gi,
+        confidence: 0.8
+      },
+
+      // Passwords written out as assignments
+      { type: 'password', pattern: /\b(?:password|passwd|pwd|passcode)\s*(?:is\s*)?[:=]\s*\S{4,}/gi, confidence: 0.85 }
+    ];
+  }
+
+  async check(content: string): Promise<SecretCheckResult> {
+    const findings = this.find_secrets(content);
+
+    return {
+      has_secrets: findings.length > 0,
+      confidence: findings.reduce((max, finding) => Math.max(max, finding.confidence), 0),
+      findings,
+      secret_types: [...new Set(findings.map(finding => finding.type))],
+      spans: sort_spans(findings.map(finding => ({
+        start: finding.start,
+        end: finding.end,
+        text: finding.text,
+        pattern: finding.type,
+        category: finding.type
+      })))
+    };
+  }
+
+  // Replaces every secret found in the content with its masked form
+  mask_secrets(content: string): string {
+    let masked = content;
+    for (const finding of this.find_secrets(content).reverse()) {
+      masked = masked.slice(0, finding.start) + this.mask_secret(finding.text) + masked.slice(finding.end);
+    }
+    return masked;
+  }
+
+  // Non-overlapping findings in content order
+  private find_secrets(content: string): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+
+    const record = (type: string, span: ModerationSpan, confidence: number): void => {
+      // A token already reported by a more specific pattern isn't reported again
+      if (findings.some(finding => span.start < finding.end && finding.start < span.end)) return;
+      findings.push({ type, text: span.text, start: span.start, end: span.end, confidence });
+    };
+
+    for (const { type, pattern, confidence } of this.secret_patterns) {
+      for (const span of find_regex_spans(content, pattern)) {
+        record(type, span, confidence);
+      }
+    }
+
+    for (const span of this.find_seed_phrases(content)) {
+      record('seed_phrase', span, 0.8);
+    }
+
+    for (const span of find_regex_spans(content, HIGH_ENTROPY_TOKEN)) {
+      if (this.is_high_entropy(span.text)) {
+        record('high_entropy_string', span, 0.6);
+      }
+    }
+
+    return findings.sort((a, b) => a.start - b.start || a.end - b.end);
+  }
+
+  // Runs of 12-24 lowercase words (the BIP39 mnemonic lengths) next to wallet vocabulary
+  private find_seed_phrases(content: string): ModerationSpan[] {
+    if (!SEED_PHRASE_CONTEXT.test(content)) return [];
+
+    return find_regex_spans(content, /\b[a-z]{3,8}(?:[ \t]+[a-z]{3,8}){11,23}\b/g)
+      .filter(span => SEED_PHRASE_LENGTHS.includes(span.text.split(/\s+/).length));
+  }
+
+  private is_high_entropy(token: string): boolean {
+    // Identifiers made only of letters (or only of digits) are rarely secrets
+    if (!/[0-9]/.test(token) || !/[A-Za-z]/.test(token)) return false;
+
+    const threshold = /^[0-9a-fA-F]+$/.test(token) ? HEX_ENTROPY_THRESHOLD : BASE64_ENTROPY_THRESHOLD;
+    return shannon_entropy(token) >= threshold;
+  }
+
+  add_secret_pattern(type: string, pattern: RegExp, confidence: number): void {
+    this.secret_patterns.push({ type, pattern, confidence });
+  }
+
+  // Shows enough of a secret to recognise it without repeating it
+  mask_secret(secret: string): string {
+    if (secret.length <= 8) return '*'.repeat(secret.length);
+    return `${secret.slice(0, 4)}${'*'.repeat(Math.min(secret.length - 6, 12))}${secret.slice(-2)}`;
+  }
+}
+
+// Bits per character
+function shannon_entropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / text.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
@@ -1,4 +1,9 @@
 import { SentimentAnalysisResult } from '../types/content_moderation';
+import { LEXICON_PACKS } from '../constants/lexicons';
+import { escape_regex } from '../utils/spans';
+
+// Languages written without spaces between words
+const UNSPACED_LANGUAGES = ['ja'];
 
 const Sentiment = require('sentiment');
 
@@ -36,10 +41,20 @@ export class SentimentAnalyzer {
         'simple': 1
       }
     });
+
+    // Register each language pack's labels under its own language code
+    for (const [language, lexicon] of Object.entries(LEXICON_PACKS)) {
+      this.analyzer.registerLanguage(language, { labels: { ...lexicon.sentiment_labels } });
+    }
   }
 
-  async analyze(content: string): Promise<SentimentAnalysisResult> {
-    const result = this.analyzer.analyze(content);
+  async analyze(content: string, language: string = 'en'): Promise<SentimentAnalysisResult> {
+    // Unknown languages fall back to English labels rather than failing
+    const analysis_language = LEXICON_PACKS[language] ? language : 'en';
+    const text = UNSPACED_LANGUAGES.includes(analysis_language)
+      ? this.separate_labelled_words(content, LEXICON_PACKS[analysis_language].sentiment_labels)
+      : content;
+    const result = this.analyzer.analyze(text, { language: analysis_language });
 
     return {
       score: result.score,
@@ -51,6 +66,12 @@ export class SentimentAnalyzer {
     };
   }
 
+  // The sentiment tokenizer splits on whitespace, so labelled words are spaced out first (longest first)
+  private separate_labelled_words(content: string, labels: Record<string, number>): string {
+    const words = Object.keys(labels).sort((a, b) => b.length - a.length).map(escape_regex);
+    return content.replace(new RegExp(words.join('|'), 'g'), word => ` ${word} `);
+  }
+
   get_sentiment_category(score: number): string {
     if (score > 2) return 'very_positive';
     if (score > 0) return 'positive';
@@ -1,14 +1,22 @@
+import { ModerationSpan } from '../types/content_moderation';
+import { LEXICON_PACKS } from '../constants/lexicons';
+import { validate_threshold } from '../utils/config_validation';
+import { find_regex_spans, sort_spans } from '../utils/spans';
+import { NormalizedText, find_normalized_phrase_spans, normalize_text } from '../utils/text_normalizer';
+
 export interface SpamCheckResult {
   is_spam: boolean;
   spam_score: number;
   spam_indicators: string[];
   clean_content: string;
+  spans: ModerationSpan[];
 }
 
 export class SpamDetector {
   private spam_patterns: Map<string, number>;
   private url_patterns: RegExp[];
   private excessive_patterns: Map<string, number>;
+  private spam_threshold = 0.6;
 
   constructor() {
     this.spam_patterns = new Map();
@@ -66,22 +74,31 @@ export class SpamDetector {
     this.excessive_patterns.set('IMPORTANT', 0.4);
   }
 
-  async check(content: string): Promise<SpamCheckResult> {
-    const lower_content = content.toLowerCase();
+  async check(
+    content: string,
+    normalized: NormalizedText = normalize_text(content),
+    language: string = 'en'
+  ): Promise<SpamCheckResult> {
     let spam_score = 0;
     const spam_indicators: string[] = [];
-
-    // Check for spam phrases
-    for (const [pattern, confidence] of this.spam_patterns) {
-      if (lower_content.includes(pattern)) {
+    const spans: ModerationSpan[] = [];
+    const spam_patterns = [...this.spam_patterns, ...Object.entries(LEXICON_PACKS[language]?.spam_phrases ?? {})];
+
+    // Check for spam phrases, including disguised spellings
+    for (const [pattern, confidence] of spam_patterns) {
+      const matches = find_normalized_phrase_spans(normalized, pattern, { category: 'spam_phrase' });
+      if (matches.length > 0) {
+        spans.push(...matches);
         spam_score += confidence;
         spam_indicators.push(`Spam phrase: "${pattern}"`);
       }
     }
 
     // Check for excessive URLs
+    const url_spans = this.find_url_spans(content);
     const url_count = this.count_urls(content);
     if (url_count > 2) {
+      spans.push(...url_spans);
       spam_score += 0.5 * url_count;
       spam_indicators.push(`Multiple URLs detected: ${url_count}`);
     }
@@ -127,10 +144,11 @@ export class SpamDetector {
     spam_score = Math.min(spam_score, 1.0);
 
     return {
-      is_spam: spam_score > 0.6,
+      is_spam: spam_score > this.spam_threshold,
       spam_score,
       spam_indicators,
-      clean_content: this.clean_content(content)
+      clean_content: this.clean_content(content),
+      spans: sort_spans(spans)
     };
   }
 
@@ -145,6 +163,22 @@ export class SpamDetector {
     return url_count;
   }
 
+  // URL patterns overlap (a bit.ly link also matches the generic pattern), so drop nested matches
+  private find_url_spans(content: string): ModerationSpan[] {
+    const candidates = this.url_patterns
+      .flatMap(pattern => find_regex_spans(content, pattern, { category: 'url' }))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const spans: ModerationSpan[] = [];
+    for (const span of candidates) {
+      const previous = spans[spans.length - 1];
+      if (!previous || span.start >= previous.end) {
+        spans.push(span);
+      }
+    }
+    return spans;
+  }
+
   private has_suspicious_patterns(content: string): boolean {
     const suspicious_patterns = [
       /\d{4}-\d{4}-\d{4}-\d{4}/, // Credit card pattern
@@ -164,17 +198,21 @@ export class SpamDetector {
   }
 
   private clean_content(content: string): string {
-    // Remove URLs
+    return this.collapse_punctuation(this.replace_urls(content)).trim();
+  }
+
+  replace_urls(content: string): string {
     let clean_content = content;
     for (const pattern of this.url_patterns) {
       clean_content = clean_content.replace(pattern, '[URL]');
     }
+    return clean_content;
+  }
 
-    // Remove excessive punctuation
-    clean_content = clean_content.replace(/!{2,}/g, '!');
-    clean_content = clean_content.replace(/\?{2,}/g, '?');
-
-    return clean_content.trim();
+  collapse_punctuation(content: string): string {
+    return content
+      .replace(/!{2,}/g, '!')
+      .replace(/\?{2,}/g, '?');
   }
 
   add_spam_pattern(pattern: string, confidence: number): void {
@@ -186,10 +224,10 @@ export class SpamDetector {
   }
 
   get_spam_threshold(): number {
-    return 0.6;
+    return this.spam_threshold;
   }
 
   set_spam_threshold(threshold: number): void {
-    console.log(`Spam threshold set to: ${threshold}`);
+    this.spam_threshold = validate_threshold(threshold);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,244 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ConfigVersion,
+  ModerationConfig,
+  Tenant,
+  TenantInput
+} from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { ModerationEngine } from '../services/moderation_engine';
+import { ImageBlocklist } from '../services/image_blocklist';
+import { ConfigStore } from '../services/config_store';
+import { detector_registry } from '../services/detector_registry';
+import { clone, read_json_file, write_json_file } from '../utils/json_file';
+import { validate_moderation_config } from '../utils/config_validation';
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface TenantStoreFile {
+  tenants: Tenant[];
+}
+
+export class TenantManager {
+  private file_path: string;
+  private base_config: ModerationConfig;
+  private base_version: number;
+  private tenants: Map<string, Tenant>;
+  private engines: Map<string, ModerationEngine>;
+  private histories: Map<string, ConfigStore<Partial<ModerationConfig>>>;
+  private image_blocklist?: ImageBlocklist;
+
+  // The image blocklist is shared: every tenant's engine matches against the same entries
+  constructor(file_path: string, base_config: ModerationConfig, base_version: number, image_blocklist?: ImageBlocklist) {
+    this.file_path = file_path;
+    this.image_blocklist = image_blocklist;
+    this.base_config = clone(base_config);
+    this.base_version = base_version;
+    this.tenants = new Map();
+    this.engines = new Map();
+    this.histories = new Map();
+
+    const data = read_json_file<TenantStoreFile>(this.file_path, { tenants: [] });
+    for (const tenant of data.tenants || []) {
+      this.tenants.set(tenant.id, tenant);
+      this.engines.set(tenant.id, this.create_engine(tenant));
+      this.histories.set(tenant.id, this.open_history(tenant));
+    }
+  }
+
+  // Each tenant's overrides are versioned like the base config, in a file of their own next to the tenants file.
+  // Tenants created before versioning start their history from their current overrides.
+  private history_path(tenant_id: string): string {
+    return path.join(path.dirname(this.file_path), 'tenant_configs', `${tenant_id}.json`);
+  }
+
+  private open_history(tenant: Tenant): ConfigStore<Partial<ModerationConfig>> {
+    return new ConfigStore<Partial<ModerationConfig>>(this.history_path(tenant.id), tenant.overrides);
+  }
+
+  private persist(): void {
+    const data: TenantStoreFile = { tenants: [...this.tenants.values()] };
+    write_json_file(this.file_path, data);
+  }
+
+  // Tenants inherit every top-level setting from the base config unless they override it
+  private resolve_config(tenant: Tenant): ModerationConfig {
+    return clone({ ...this.base_config, ...tenant.overrides });
+  }
+
+  private create_engine(tenant: Tenant): ModerationEngine {
+    return new ModerationEngine(this.resolve_config(tenant), this.base_version, detector_registry, this.image_blocklist);
+  }
+
+  private refresh_engine(tenant: Tenant): void {
+    const engine = this.engines.get(tenant.id);
+    if (engine) {
+      engine.update_config(this.resolve_config(tenant), this.base_version);
+    } else {
+      this.engines.set(tenant.id, this.create_engine(tenant));
+    }
+  }
+
+  list_tenants(): Tenant[] {
+    return [...this.tenants.values()].map(tenant => clone(tenant));
+  }
+
+  get_tenant(tenant_id: string): Tenant | undefined {
+    const tenant = this.tenants.get(tenant_id);
+    return tenant ? clone(tenant) : undefined;
+  }
+
+  get_engine(tenant_id: string): ModerationEngine | undefined {
+    return this.engines.get(tenant_id);
+  }
+
+  get_config_history(tenant_id: string): ConfigStore<Partial<ModerationConfig>> | undefined {
+    return this.histories.get(tenant_id);
+  }
+
+  get_resolved_config(tenant_id: string): ModerationConfig | undefined {
+    const tenant = this.tenants.get(tenant_id);
+    return tenant ? this.resolve_config(tenant) : undefined;
+  }
+
+  create_tenant(input: TenantInput): Tenant {
+    if (this.tenants.has(input.id)) {
+      throw new Error(NOTIFICATION_MESSAGES.TENANT_ALREADY_EXISTS);
+    }
+
+    const now = new Date().toISOString();
+    const tenant: Tenant = {
+      id: input.id,
+      name: input.name,
+      overrides: input.overrides || {},
+      revision: 1,
+      created_at: now,
+      updated_at: now
+    };
+
+    // A stale history from a deleted tenant with the same id must not carry over
+    fs.rmSync(this.history_path(tenant.id), { force: true });
+
+    this.tenants.set(tenant.id, tenant);
+    this.histories.set(tenant.id, this.open_history(tenant));
+    this.refresh_engine(tenant);
+    this.persist();
+    return clone(tenant);
+  }
+
+  // Override changes are recorded as a new version of the tenant's config
+  update_tenant(tenant_id: string, updates: Partial<TenantInput>, author: string = 'system', comment?: string): Tenant {
+    const existing = this.tenants.get(tenant_id);
+    if (!existing) {
+      throw new Error(NOTIFICATION_MESSAGES.TENANT_NOT_FOUND);
+    }
+
+    const tenant: Tenant = {
+      ...existing,
+      name: updates.name ?? existing.name,
+      overrides: updates.overrides ?? existing.overrides,
+      revision: existing.revision + 1,
+      updated_at: new Date().toISOString()
+    };
+
+    this.tenants.set(tenant_id, tenant);
+    this.refresh_engine(tenant);
+    try {
+      this.persist();
+    } catch (error) {
+      // Unsaved changes would otherwise stay live until the next restart
+      this.tenants.set(tenant_id, existing);
+      this.refresh_engine(existing);
+      throw error;
+    }
+
+    if (JSON.stringify(tenant.overrides) !== JSON.stringify(existing.overrides)) {
+      (this.histories.get(tenant_id) as ConfigStore<Partial<ModerationConfig>>).save(tenant.overrides, author, comment || 'Overrides updated');
+    }
+
+    return clone(tenant);
+  }
+
+  // Restores the overrides of an earlier version, recorded as a new version
+  rollback_overrides(tenant_id: string, version: number, author: string): ConfigVersion<Partial<ModerationConfig>> {
+    const history = this.histories.get(tenant_id);
+    if (!history) {
+      throw new Error(NOTIFICATION_MESSAGES.TENANT_NOT_FOUND);
+    }
+
+    const target = history.get_version(version);
+    if (!target) {
+      throw new Error(NOTIFICATION_MESSAGES.CONFIG_VERSION_NOT_FOUND);
+    }
+
+    this.update_tenant(tenant_id, { overrides: target.config }, author, `Rollback to version ${version}`);
+    return history.get_current();
+  }
+
+  // Store only the settings that differ from the base config so the rest keeps inheriting
+  save_engine_config(tenant_id: string, author?: string, comment?: string): Tenant {
+    const engine = this.engines.get(tenant_id);
+    if (!engine) {
+      throw new Error(NOTIFICATION_MESSAGES.TENANT_NOT_FOUND);
+    }
+
+    const config = engine.get_config();
+    const overrides: Record<string, unknown> = {};
+    for (const key of Object.keys(config) as Array<keyof ModerationConfig>) {
+      if (JSON.stringify(config[key]) !== JSON.stringify(this.base_config[key])) {
+        overrides[key] = config[key];
+      }
+    }
+
+    return this.update_tenant(tenant_id, { overrides: overrides as Partial<ModerationConfig> }, author, comment);
+  }
+
+  // Where tenants name a platform in their own rules, clauses or thresholds
+  get_platform_references(platform: string): string[] {
+    return [...this.engines.entries()].flatMap(([tenant_id, engine]) =>
+      engine.get_platform_references(platform).map(reference => `tenant ${tenant_id}: ${reference}`)
+    );
+  }
+
+  delete_tenant(tenant_id: string): boolean {
+    if (!this.tenants.delete(tenant_id)) {
+      return false;
+    }
+
+    this.engines.delete(tenant_id);
+    this.histories.delete(tenant_id);
+    fs.rmSync(this.history_path(tenant_id), { force: true });
+    this.persist();
+    return true;
+  }
+
+  update_base_config(base_config: ModerationConfig, base_version: number): void {
+    this.base_config = clone(base_config);
+    this.base_version = base_version;
+
+    for (const tenant of this.tenants.values()) {
+      this.refresh_engine(tenant);
+    }
+  }
+
+  validate_tenant(input: Partial<TenantInput>, existing_id?: string): string[] {
+    const errors: string[] = [];
+
+    if (!existing_id && (typeof input.id !== 'string' || !TENANT_ID_PATTERN.test(input.id))) {
+      errors.push('id must be a non-empty string of letters, digits, "_" or "-"');
+    }
+
+    if (!existing_id || input.name !== undefined) {
+      if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+        errors.push('name must be a non-empty string');
+      }
+    }
+
+    if (input.overrides !== undefined) {
+      errors.push(...validate_moderation_config(input.overrides, true, Object.keys(this.base_config.platform_profiles || {})).map(error => `overrides: ${error}`));
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  ModerationSpan,
+  PlatformType,
+  ToxicityCheckResult,
+  ToxicityClassifierConfig,
+  ToxicityClassifierStatus
+} from '../types/content_moderation';
+import { CircuitBreaker } from './circuit_breaker';
+import { sort_spans } from '../utils/spans';
+
+// The categories ToxicityDetector scores; the model's labels are mapped onto these
+export const TOXICITY_CATEGORIES = ['general_toxicity', 'hate_speech', 'violence', 'sexual_content'];
+
+// Same line ToxicityDetector draws for is_toxic
+const TOXIC_SCORE = 0.5;
+
+// Spans the model returns are reported with this as their pattern
+const CLASSIFIER_SPAN_PATTERN = 'classifier';
+
+type AttemptOutcome = { data: unknown } | { error: string; retryable: boolean };
+
+// Scores content with an external toxicity model over HTTP. The service is sent
+// { content, platform, language } and answers { categories: { <label>: <score> }, spans?: [{ start, end, label }] }.
+// score() throws when the service can't answer, so callers can fall back to the lexicon.
+export class ToxicityClassifier {
+  private config: ToxicityClassifierConfig;
+  private breaker: CircuitBreaker;
+  private calls = 0;
+  private failures = 0;
+  private rejected = 0;
+
+  constructor(config: ToxicityClassifierConfig) {
+    this.config = config;
+    this.breaker = new CircuitBreaker(config.circuit_breaker);
+  }
+
+  async score(content: string, platform: PlatformType, language: string): Promise<ToxicityCheckResult> {
+    if (!this.breaker.allow()) {
+      this.rejected++;
+      throw new Error('Toxicity classifier circuit is open');
+    }
+
+    this.calls++;
+    try {
+      const result = await this.call_with_retries(content, platform, language);
+      this.breaker.record_success();
+      return result;
+    } catch (error) {
+      this.failures++;
+      this.breaker.record_failure();
+      console.warn(error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  status(): ToxicityClassifierStatus {
+    return {
+      circuit: this.breaker.status(),
+      calls: this.calls,
+      failures: this.failures,
+      rejected: this.rejected
+    };
+  }
+
+  private async call_with_retries(content: string, platform: PlatformType, language: string): Promise<ToxicityCheckResult> {
+    const body = JSON.stringify({ content, platform, language });
+
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await this.attempt(body);
+      if ('data' in outcome) {
+        return this.to_result(outcome.data, content);
+      }
+      if (!outcome.retryable || attempt >= this.config.retries) {
+        throw new Error(`Toxicity classifier ${outcome.error}`);
+      }
+      await sleep(this.config.retry_delay_ms * 2 ** attempt);
+    }
+  }
+
+  // Timeouts, network errors, 429 and 5xx are worth retrying; other errors would fail the same way again
+  private async attempt(body: string): Promise<AttemptOutcome> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.token) headers.Authorization = `Bearer ${this.config.token}`;
+
+    // The timeout covers reading the body as well as the response headers
+    const signal = AbortSignal.timeout(this.config.timeout_ms);
+    try {
+      const response = await fetch(this.config.url, { method: 'POST', headers, body, signal });
+      if (!response.ok) {
+        await response.text();
+        return { error: `responded with ${response.status}`, retryable: response.status === 429 || response.status >= 500 };
+      }
+
+      const text = await response.text();
+      try {
+        return { data: JSON.parse(text) };
+      } catch (error) {
+        return { error: 'responded with invalid JSON', retryable: false };
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return { error: `timed out after ${this.config.timeout_ms} ms`, retryable: true };
+      }
+      return { error: `request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, retryable: true };
+    }
+  }
+
+  // Maps the response into the same shape ToxicityDetector returns. Unknown labels are ignored
+  // and a label mapped to the same category as another keeps the higher score.
+  private to_result(response: unknown, content: string): ToxicityCheckResult {
+    if (!is_object(response) || !is_object(response.categories)) {
+      throw new Error('Toxicity classifier response has no categories object');
+    }
+
+    const categories: Record<string, number> = {};
+    TOXICITY_CATEGORIES.forEach(category => {
+      categories[category] = 0;
+    });
+    for (const [label, score] of Object.entries(response.categories)) {
+      const category = this.category_for(label);
+      if (!category || typeof score !== 'number' || !Number.isFinite(score)) continue;
+      categories[category] = Math.max(categories[category], Math.min(Math.max(score, 0), 1));
+    }
+
+    const spans: ModerationSpan[] = [];
+    for (const span of Array.isArray(response.spans) ? response.spans : []) {
+      if (!is_object(span) || typeof span.label !== 'string') continue;
+      const category = this.category_for(span.label);
+      const { start, end } = span;
+      if (!category || !Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > content.length || start >= end) {
+        continue;
+      }
+      spans.push({ start, end, text: content.slice(start, end), pattern: CLASSIFIER_SPAN_PATTERN, category });
+    }
+
+    const toxicity_score = Math.max(...Object.values(categories));
+    return {
+      is_toxic: toxicity_score > TOXIC_SCORE,
+      toxicity_score,
+      categories,
+      spans: sort_spans(spans)
+    };
+  }
+
+  private category_for(label: string): string | undefined {
+    const category = this.config.labels[label] ?? label;
+    return TOXICITY_CATEGORIES.includes(category) ? category : undefined;
+  }
+}
+
+// TOXICITY_CLASSIFIER_URL switches the classifier on; everything else has a default
+export function toxicity_classifier_config(env: NodeJS.ProcessEnv): ToxicityClassifierConfig | undefined {
+  if (!env.TOXICITY_CLASSIFIER_URL) return undefined;
+
+  return {
+    url: env.TOXICITY_CLASSIFIER_URL,
+    token: env.TOXICITY_CLASSIFIER_TOKEN || undefined,
+    timeout_ms: parseInt(env.TOXICITY_CLASSIFIER_TIMEOUT_MS || '2000', 10),
+    retries: parseInt(env.TOXICITY_CLASSIFIER_RETRIES || '2', 10),
+    retry_delay_ms: parseInt(env.TOXICITY_CLASSIFIER_RETRY_DELAY_MS || '100', 10),
+    circuit_breaker: {
+      failure_threshold: parseInt(env.TOXICITY_CLASSIFIER_FAILURE_THRESHOLD || '5', 10),
+      reset_ms: parseInt(env.TOXICITY_CLASSIFIER_RESET_MS || '30000', 10)
+    },
+    labels: parse_label_map(env.TOXICITY_CLASSIFIER_LABELS)
+  };
+}
+
+// TOXICITY_CLASSIFIER_LABELS is a comma-separated list of label=category pairs, e.g. "insult=general_toxicity,threat=violence"
+function parse_label_map(value: string | undefined): Record<string, string> {
+  const labels: Record<string, string> = {};
+
+  for (const pair of (value || '').split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const [label, category] = pair.split('=').map(part => part.trim());
+    if (!label || !TOXICITY_CATEGORIES.includes(category)) {
+      throw new Error(`TOXICITY_CLASSIFIER_LABELS: "${pair}" must map a label to one of: ${TOXICITY_CATEGORIES.join(', ')}`);
+    }
+    labels[label] = category;
+  }
+
+  return labels;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function is_object(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,10 +1,15 @@
-import { ToxicityCheckResult } from '../types/content_moderation';
+import { LanguageLexicon, ModerationSpan, ToxicityCheckResult } from '../types/content_moderation';
+import { LEXICON_PACKS } from '../constants/lexicons';
+import { validate_threshold } from '../utils/config_validation';
+import { sort_spans } from '../utils/spans';
+import { NormalizedText, find_normalized_phrase_spans, find_normalized_regex_spans, normalize_text } from '../utils/text_normalizer';
 
 export class ToxicityDetector {
   private toxic_patterns: Map<string, number>;
   private hate_speech_patterns: string[];
   private violence_patterns: string[];
   private sexual_content_patterns: string[];
+  private toxicity_threshold = 0.5;
 
   constructor() {
     this.toxic_patterns = new Map();
@@ -28,6 +33,9 @@ export class ToxicityDetector {
     this.toxic_patterns.set('nobody cares', 0.5);
     this.toxic_patterns.set('you are worthless', 0.8);
     this.toxic_patterns.set('you are useless', 0.7);
+    this.toxic_patterns.set('you worthless', 0.8);
+    this.toxic_patterns.set('you are a loser', 0.6);
+    this.toxic_patterns.set('you loser', 0.6);
 
     // Hate speech patterns
     this.hate_speech_patterns = [
@@ -71,9 +79,20 @@ export class ToxicityDetector {
     ];
   }
 
-  async check(content: string): Promise<ToxicityCheckResult> {
-    const lower_content = content.toLowerCase();
+  async check(
+    content: string,
+    normalized: NormalizedText = normalize_text(content),
+    language: string = 'en'
+  ): Promise<ToxicityCheckResult> {
+    // Other languages are checked with their own pack plus the English lists, since posts often mix the two
+    const lexicon: LanguageLexicon | undefined = LEXICON_PACKS[language];
+    const toxic_patterns = [...this.toxic_patterns, ...Object.entries(lexicon?.toxic_phrases ?? {})];
+    const hate_speech_patterns = [...this.hate_speech_patterns, ...(lexicon?.hate_speech_patterns ?? [])];
+    const violence_patterns = [...this.violence_patterns, ...(lexicon?.violence_patterns ?? [])];
+    const sexual_content_patterns = [...this.sexual_content_patterns, ...(lexicon?.sexual_content_patterns ?? [])];
+
     let max_toxicity_score = 0;
+    const spans: ModerationSpan[] = [];
     const categories: Record<string, number> = {
       general_toxicity: 0,
       hate_speech: 0,
@@ -81,34 +100,42 @@ export class ToxicityDetector {
       sexual_content: 0
     };
 
+    // Phrases are matched against the normalized text so disguised spellings are caught
     // Check general toxic patterns
-    for (const [pattern, confidence] of this.toxic_patterns) {
-      if (lower_content.includes(pattern)) {
+    for (const [pattern, confidence] of toxic_patterns) {
+      const matches = find_normalized_phrase_spans(normalized, pattern, { category: 'general_toxicity' });
+      if (matches.length > 0) {
+        spans.push(...matches);
         categories.general_toxicity = Math.max(categories.general_toxicity, confidence);
         max_toxicity_score = Math.max(max_toxicity_score, confidence);
       }
     }
 
     // Check hate speech patterns
-    for (const pattern of this.hate_speech_patterns) {
-      const regex = new RegExp(pattern, 'i');
-      if (regex.test(content)) {
+    for (const pattern of hate_speech_patterns) {
+      const matches = find_normalized_regex_spans(normalized, new RegExp(pattern, 'i'), { category: 'hate_speech', pattern });
+      if (matches.length > 0) {
+        spans.push(...matches);
         categories.hate_speech = Math.max(categories.hate_speech, 0.8);
         max_toxicity_score = Math.max(max_toxicity_score, 0.8);
       }
     }
 
     // Check violence patterns
-    for (const pattern of this.violence_patterns) {
-      if (lower_content.includes(pattern)) {
+    for (const pattern of violence_patterns) {
+      const matches = find_normalized_phrase_spans(normalized, pattern, { category: 'violence' });
+      if (matches.length > 0) {
+        spans.push(...matches);
         categories.violence = Math.max(categories.violence, 0.9);
         max_toxicity_score = Math.max(max_toxicity_score, 0.9);
       }
     }
 
     // Check sexual content patterns
-    for (const pattern of this.sexual_content_patterns) {
-      if (lower_content.includes(pattern)) {
+    for (const pattern of sexual_content_patterns) {
+      const matches = find_normalized_phrase_spans(normalized, pattern, { category: 'sexual_content' });
+      if (matches.length > 0) {
+        spans.push(...matches);
         categories.sexual_content = Math.max(categories.sexual_content, 0.7);
         max_toxicity_score = Math.max(max_toxicity_score, 0.7);
       }
@@ -130,9 +157,10 @@ export class ToxicityDetector {
     }
 
     return {
-      is_toxic: max_toxicity_score > 0.5,
+      is_toxic: max_toxicity_score > this.toxicity_threshold,
       toxicity_score: max_toxicity_score,
-      categories
+      categories,
+      spans: sort_spans(spans)
     };
   }
 
@@ -153,11 +181,10 @@ export class ToxicityDetector {
   }
 
   get_toxicity_threshold(): number {
-    return 0.5;
+    return this.toxicity_threshold;
   }
 
   set_toxicity_threshold(threshold: number): void {
-    // This would be used to adjust sensitivity
-    console.log(`Toxicity threshold set to: ${threshold}`);
+    this.toxicity_threshold = validate_threshold(threshold);
   }
 } 
\ No newline at end of file
@@ -12,6 +12,7 @@ export enum SeverityLevel {
   CRITICAL = 'critical'
 }
 
+// Built-in platforms; others can be added at runtime as platform profiles
 export enum PlatformType {
   TWITTER = 'twitter',
   FACEBOOK = 'facebook',
@@ -21,14 +22,47 @@ export enum PlatformType {
   YOUTUBE = 'youtube'
 }
 
+export enum LinkType {
+  ANY = 'any',
+  INSECURE = 'insecure',
+  IP_ADDRESS = 'ip_address',
+  SHORTENER = 'shortener'
+}
+
+export enum PolicyAction {
+  ALLOW = 'allow',
+  ALLOW_WITH_WARNING = 'allow_with_warning',
+  REQUIRE_REVIEW = 'require_review',
+  BLOCK = 'block'
+}
+
+export enum ApiKeyScope {
+  MODERATE = 'moderate',
+  CONFIG_READ = 'config:read',
+  CONFIG_WRITE = 'config:write',
+  AUDIT_READ = 'audit:read',
+  REVIEW = 'review',
+  ADMIN = 'admin'
+}
+
 export interface ContentModerationRequest {
   content: string;
   content_type: ContentType;
   platform: PlatformType;
   user_id?: string;
+  fields?: Record<string, string>; // Extra platform fields checked against the profile, e.g. a YouTube title
   metadata?: Record<string, any>;
 }
 
+export interface ModerationSpan {
+  start: number;
+  end: number;
+  text: string;
+  pattern: string;
+  category?: string;
+  rule_id?: string;
+}
+
 export interface ModerationFlag {
   type: string;
   severity: SeverityLevel;
@@ -36,9 +70,17 @@ export interface ModerationFlag {
   description: string;
   flagged_text?: string;
   suggestion?: string;
+  spans?: ModerationSpan[];
+  threshold?: number; // The cutoff confidence was compared against, for detector flags
+  field?: string; // The request field the flag and its spans refer to, when it isn't content
+  matched_clause?: string; // For custom rules, the pattern or condition clause that matched
+  source?: ScoreSource; // Which scorer produced the confidence, for detectors that can score more than one way
+  blocklist_entry?: string; // For blocklisted images, the id of the entry that matched
+  segment?: TranscriptSegmentRef; // For transcripts, the cues the flag's spans fall in
 }
 
 export interface ContentModerationResponse {
+  request_id: string;
   is_flagged: boolean;
   flags: ModerationFlag[];
   overall_severity: SeverityLevel;
@@ -46,21 +88,245 @@ export interface ContentModerationResponse {
   safe_to_post: boolean;
   recommendations: string[];
   processing_time_ms: number;
+  config_version: number;
+  requires_review: boolean;
+  review_id?: string;
+  detected_language: string;
+  action: PolicyAction;
+  policy_clause: PolicyClause | null; // The clause that chose the action, or null for the policy default
+  score_sources?: Record<string, ScoreSource>; // Keyed by detector, for detectors that can score more than one way
+  image?: ImageAnalysis; // For IMAGE requests
+  transcript?: TranscriptResult; // For VIDEO and AUDIO requests whose content is a subtitle file or timestamped transcript
+}
+
+export interface MultiPlatformModerationRequest extends Omit<ContentModerationRequest, 'platform'> {
+  platforms: PlatformType[];
+}
+
+export interface MultiPlatformModerationResponse {
+  request_id: string;
+  verdicts: Record<string, ContentModerationResponse>; // Keyed by platform
+  safe_everywhere: boolean;
+  unsafe_platforms: PlatformType[];
+  highest_severity: SeverityLevel;
+  detected_language: string;
+  processing_time_ms: number;
+  config_version: number;
+}
+
+export interface BatchModerationItem extends ContentModerationRequest {
+  correlation_id?: string;
+}
+
+export interface BatchModerationRequest {
+  items: BatchModerationItem[];
+}
+
+export interface BatchModerationError {
+  code: string;
+  message: string;
+  details?: string;
+}
+
+export interface BatchModerationItemResult {
+  correlation_id: string;
+  success: boolean;
+  data?: ContentModerationResponse;
+  error?: BatchModerationError;
+}
+
+export interface BatchModerationSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  flagged_count: number;
+  unsafe_count: number;
+  highest_severity: SeverityLevel | null;
+}
+
+export interface BatchModerationResponse {
+  results: BatchModerationItemResult[];
+  summary: BatchModerationSummary;
+  processing_time_ms: number;
+}
+
+export interface RemediationChange {
+  type: 'profanity_masked' | 'secret_redacted' | 'personal_info_redacted' | 'shouting_reduced' | 'punctuation_collapsed' | 'trimmed';
+  description: string;
+  affected_text: string[];
+}
+
+export interface RemediationResult {
+  original_content: string;
+  remediated_content: string;
+  changed: boolean;
+  changes: RemediationChange[];
+  original_result: ContentModerationResponse;
+  remediated_result: ContentModerationResponse;
+  safe_to_post: boolean;
+}
+
+// A node of a rule's condition tree; each node uses exactly one of all, any, not, phrase, regex, near, metadata or content_types
+export interface RuleCondition {
+  label?: string; // Reported as the matched clause instead of a generated description
+  all?: RuleCondition[];
+  any?: RuleCondition[];
+  not?: RuleCondition;
+  phrase?: string; // Matched against normalized text, as whole words unless whole_word is false
+  whole_word?: boolean;
+  regex?: string; // Matched case-insensitively against the raw content
+  near?: [string, string];
+  within?: number; // With near: the most words allowed between the two phrases
+  metadata?: string; // Dotted path into the request's metadata
+  equals?: string | number | boolean;
+  one_of?: Array<string | number | boolean>;
+  exists?: boolean;
+  content_types?: ContentType[];
 }
 
 export interface ModerationRule {
   id: string;
   name: string;
   description: string;
-  patterns: string[];
+  patterns?: string[]; // Substrings or /regex/ strings; each matching pattern gives its own flag
+  condition?: RuleCondition;
+  whole_word?: boolean; // Only match patterns as whole words
+  exceptions?: string[]; // Matches inside these phrases don't count
+  allowlist?: string[]; // Matches inside these words don't count
+  confidence?: number;
+  suggestion?: string;
   severity: SeverityLevel;
   enabled: boolean;
   platforms: PlatformType[];
 }
 
+export interface ReviewQueueConfig {
+  enabled: boolean;
+  min_severity: SeverityLevel;
+  max_severity: SeverityLevel;
+}
+
+// Matches the flags of a response; holds when the number of matching flags is within min_count..max_count
+export interface PolicyCondition {
+  flag_types?: string[]; // Exact types, or prefixes ending in "*" such as "custom_rule_*"
+  min_severity?: SeverityLevel;
+  max_severity?: SeverityLevel;
+  min_confidence?: number;
+  min_count?: number; // Defaults to 1
+  max_count?: number;
+}
+
+export interface PolicyClause {
+  id: string;
+  description: string;
+  action: PolicyAction;
+  platforms?: PlatformType[]; // All platforms when omitted
+  conditions: PolicyCondition[]; // All must hold
+  enabled: boolean;
+}
+
+export interface DecisionPolicy {
+  clauses: PolicyClause[];
+  default_action: PolicyAction;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  clause: PolicyClause | null;
+}
+
+// Describes one setting a detector accepts under config.detectors.<name>
+export interface DetectorSettingSchema {
+  type: 'boolean' | 'number' | 'string' | 'string_array';
+  description: string;
+  default?: boolean | number | string | string[];
+  min?: number;
+  max?: number;
+  values?: string[]; // Allowed values for string settings
+}
+
+export type DetectorSettings = Record<string, unknown>;
+
+// What the API reports about a registered detector
+export interface DetectorDescriptor {
+  name: string;
+  description: string;
+  built_in: boolean;
+  enabled: boolean;
+  toggle?: string; // The enable_* key that switches a built-in detector
+  flag_types: string[];
+  thresholds: string[];
+  settings: Record<string, DetectorSettingSchema>;
+}
+
+// Confidence cutoffs keyed by threshold name (see DetectorRegistry.threshold_names)
+export type DetectorThresholds = Record<string, number>;
+
+export interface PlatformThresholds {
+  sensitivity_threshold?: number;
+  detector_thresholds?: DetectorThresholds;
+}
+
+// Twitter-style counting, where some characters don't count as one
+export interface CharacterWeights {
+  url_length?: number; // Every link counts as this many characters
+  emoji_weight?: number;
+  wide_character_weight?: number; // CJK characters
+}
+
+export interface PlatformFieldLimits {
+  character_limit: number;
+  required?: boolean;
+}
+
+export enum ImageFormat {
+  JPEG = 'jpeg',
+  PNG = 'png',
+  GIF = 'gif',
+  WEBP = 'webp'
+}
+
+export enum TranscriptFormat {
+  SRT = 'srt',
+  WEBVTT = 'webvtt',
+  PLAIN = 'plain' // One "[00:01:02] text" line per cue
+}
+
+export interface PlatformImageLimits {
+  formats: ImageFormat[];
+  max_bytes?: number;
+  min_width?: number;
+  min_height?: number;
+  max_width?: number;
+  max_height?: number;
+  min_aspect_ratio?: number; // Width divided by height
+  max_aspect_ratio?: number;
+}
+
+export interface PlatformProfile {
+  name: string;
+  content_field: string; // What the platform calls the main text, e.g. "caption" or "description"
+  character_limit: number;
+  character_weights?: CharacterWeights;
+  hashtag_limit?: number;
+  mention_limit?: number;
+  link_limit?: number;
+  banned_link_types?: LinkType[];
+  fields?: Record<string, PlatformFieldLimits>;
+  image?: PlatformImageLimits; // Checked for IMAGE requests; without it any image is accepted
+  recommendation?: string;
+}
+
 export interface ModerationConfig {
   rules: ModerationRule[];
+  decision_policy?: DecisionPolicy;
+  review_queue?: ReviewQueueConfig;
   sensitivity_threshold: number;
+  detector_thresholds?: DetectorThresholds;
+  platform_thresholds?: Partial<Record<PlatformType, PlatformThresholds>>;
+  platform_profiles?: Record<string, PlatformProfile>;
+  detectors?: Record<string, DetectorSettings>; // Per-detector settings, including enabled for registered modules
+  image_match_distance?: number; // Largest Hamming distance between 64-bit hashes that counts as a blocklist match
   enable_sentiment_analysis: boolean;
   enable_profanity_detection: boolean;
   enable_toxicity_detection: boolean;
@@ -69,6 +335,337 @@ export interface ModerationConfig {
   enable_violence_detection: boolean;
   enable_sexual_content_detection: boolean;
   enable_personal_info_detection: boolean;
+  enable_secret_detection: boolean;
+}
+
+export interface Tenant {
+  id: string;
+  name: string;
+  overrides: Partial<ModerationConfig>;
+  revision: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TenantInput = Pick<Tenant, 'id' | 'name'> & Partial<Pick<Tenant, 'overrides'>>;
+
+export interface RateLimitConfig {
+  burst: number;
+  refill_per_second: number;
+  quota: number;
+  quota_window_ms: number;
+}
+
+// limit and remaining describe the quota; the burst fields describe the token bucket
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_seconds: number;
+  burst_limit: number;
+  burst_remaining: number;
+  retry_after_seconds: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  tenant_id?: string;
+  rate_limit?: Partial<RateLimitConfig>;
+  created_at: string;
+  revoked_at?: string;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'key_hash'>;
+
+export type ApiKeyInput = Pick<ApiKey, 'name' | 'scopes'> & Partial<Pick<ApiKey, 'tenant_id' | 'rate_limit'>>;
+
+// Fields left out are kept; null clears the tenant or the rate limit overrides
+export type ApiKeyUpdate = Partial<Pick<ApiKey, 'name' | 'scopes'>> & {
+  tenant_id?: string | null;
+  rate_limit?: ApiKey['rate_limit'] | null;
+};
+
+export enum BacktestChangeType {
+  NEWLY_FLAGGED = 'newly_flagged',
+  NEWLY_UNFLAGGED = 'newly_unflagged',
+  BECAME_SAFE = 'became_safe',
+  BECAME_UNSAFE = 'became_unsafe',
+  ACTION_CHANGED = 'action_changed',
+  FLAGS_CHANGED = 'flags_changed'
+}
+
+export interface BacktestSample extends ContentModerationRequest {
+  id?: string;
+}
+
+// An audit entry that can't be moderated again as it was, for example one recorded before whole requests were kept
+export interface BacktestSkippedSample {
+  sample_id: string;
+  details: string;
+}
+
+export interface BacktestAuditSource {
+  limit?: number;
+  platform?: PlatformType;
+  from?: string;
+  to?: string;
+}
+
+// Exactly one of rule or config, and samples, audit or both
+export interface BacktestRequest {
+  rule?: ModerationRule;
+  config?: ModerationConfig;
+  samples?: BacktestSample[];
+  audit?: BacktestAuditSource;
+}
+
+export interface BacktestOutcome {
+  is_flagged: boolean;
+  safe_to_post: boolean;
+  action: PolicyAction;
+  overall_severity: SeverityLevel;
+  flag_types: string[];
+}
+
+export interface BacktestChange {
+  sample_id: string;
+  platform: PlatformType;
+  changes: BacktestChangeType[];
+  before: BacktestOutcome;
+  after: BacktestOutcome;
+  added_flags: string[];
+  removed_flags: string[];
+}
+
+export interface BacktestSummary {
+  total: number;
+  evaluated: number;
+  failed: number;
+  skipped: number;
+  changed: number;
+  newly_flagged: number;
+  newly_unflagged: number;
+  became_safe: number;
+  became_unsafe: number;
+  action_changed: number;
+  rule_matches?: number; // Samples the draft rule flags, for rule backtests
+}
+
+export interface BacktestResult {
+  summary: BacktestSummary;
+  changes: BacktestChange[];
+  errors: Array<{ sample_id: string; details: string }>;
+  skipped: BacktestSkippedSample[];
+  processing_time_ms: number;
+}
+
+// A labeled post for offline evaluation. Labels are flag types ("spam") or
+// flag type and span category ("personal_info:email"); no labels means the post is clean.
+export interface EvaluationSample extends ContentModerationRequest {
+  id: string;
+  labels: string[];
+}
+
+export interface ConfusionMatrix {
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  true_negatives: number;
+}
+
+export interface LabelMetrics extends ConfusionMatrix {
+  label: string;
+  support: number; // Samples that carry the label
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationMistake {
+  sample_id: string;
+  content: string;
+  labels: string[];
+  predicted: string[];
+  wrong_labels: string[]; // Missed labels for false negatives, unexpected ones for false positives
+  confidence: number;
+}
+
+export interface EvaluationReport {
+  total: number;
+  evaluated: number;
+  failed: Array<{ sample_id: string; details: string }>;
+  flagged: LabelMetrics; // Any label at all, i.e. flagged vs clean
+  flag_types: LabelMetrics[];
+  categories: LabelMetrics[];
+  worst_false_positives: EvaluationMistake[];
+  worst_false_negatives: EvaluationMistake[];
+  processing_time_ms: number;
+}
+
+export interface LabelMetricsDelta {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationComparison {
+  baseline: EvaluationReport;
+  candidate: EvaluationReport;
+  deltas: LabelMetricsDelta[]; // Candidate minus baseline, flagged first
+  fixed: string[]; // Sample ids the candidate gets right and the baseline got wrong
+  regressed: string[];
+}
+
+export enum AuditContentMode {
+  HASH_ONLY = 'hash_only',
+  REDACTED = 'redacted',
+  FULL = 'full'
+}
+
+export interface AuditLogEntry {
+  request_id: string;
+  timestamp: string;
+  tenant_id?: string;
+  api_key_id?: string;
+  user_id?: string;
+  platform: PlatformType;
+  content_type: ContentType;
+  content_hash: string;
+  content?: string;
+  // Full content mode keeps the rest of the request as well, and marks the entry replayable for backtests
+  fields?: Record<string, string>;
+  metadata?: ContentModerationRequest['metadata'];
+  replayable?: boolean;
+  flags: ModerationFlag[];
+  overall_severity: SeverityLevel;
+  safe_to_post: boolean;
+  config_version: number;
+  processing_time_ms: number;
+  review_id?: string;
+  detected_language?: string;
+  action?: PolicyAction;
+  // Set on the entry recorded when a reviewer approves or rejects a queued item. Its processing time is
+  // how long the item waited for the decision.
+  review_decision?: ReviewDecision;
+}
+
+export interface AuditLogQuery {
+  tenant_id?: string;
+  user_id?: string;
+  platform?: PlatformType;
+  severity?: SeverityLevel;
+  flag_type?: string;
+  safe_to_post?: boolean;
+  from?: Date;
+  to?: Date;
+  offset: number;
+  limit: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export enum ReviewStatus {
+  PENDING = 'pending',
+  CLAIMED = 'claimed',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  ESCALATED = 'escalated'
+}
+
+export enum ReviewAction {
+  CLAIM = 'claim',
+  APPROVE = 'approve',
+  REJECT = 'reject',
+  ESCALATE = 'escalate'
+}
+
+export interface ReviewEvent {
+  action: ReviewAction;
+  reviewer: string;
+  notes?: string;
+  timestamp: string;
+}
+
+export interface ReviewDecision {
+  approved: boolean;
+  reviewer: string;
+  notes?: string;
+  decided_at: string;
+}
+
+export interface ReviewItem {
+  id: string;
+  request_id: string;
+  tenant_id?: string;
+  user_id?: string;
+  platform: PlatformType;
+  content_type: ContentType;
+  content: string; // Empty for images, which are identified by content_hash instead
+  content_hash?: string; // SHA-256 of an image's content, the same hash the audit log records
+  image?: ImageAnalysis;
+  flags: ModerationFlag[];
+  overall_severity: SeverityLevel;
+  automated_safe_to_post: boolean;
+  config_version: number;
+  status: ReviewStatus;
+  assigned_to?: string;
+  decision?: ReviewDecision;
+  history: ReviewEvent[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewQueueQuery {
+  tenant_id?: string;
+  status?: ReviewStatus;
+  platform?: PlatformType;
+  assigned_to?: string;
+  offset: number;
+  limit: number;
+}
+
+// Base configurations, or a tenant's overrides
+export interface ConfigVersion<T = ModerationConfig> {
+  version: number;
+  config: T;
+  author: string;
+  comment?: string;
+  created_at: string;
+}
+
+export type ConfigVersionSummary = Omit<ConfigVersion, 'config'>;
+
+export interface ConfigDiffEntry {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface LanguageDetectionResult {
+  language: string; // ISO 639-1 code, or 'und' when undetermined
+  confidence: number;
+  supported: boolean;
+}
+
+// Per-language patterns used alongside the built-in English lists
+export interface LanguageLexicon {
+  toxic_phrases: Record<string, number>;
+  hate_speech_patterns: string[];
+  violence_patterns: string[];
+  sexual_content_patterns: string[];
+  spam_phrases: Record<string, number>;
+  sentiment_labels: Record<string, number>;
 }
 
 export interface SentimentAnalysisResult {
@@ -84,10 +681,113 @@ export interface ProfanityCheckResult {
   is_profane: boolean;
   profane_words: string[];
   clean_text: string;
+  spans: ModerationSpan[];
 }
 
 export interface ToxicityCheckResult {
   is_toxic: boolean;
   toxicity_score: number;
   categories: Record<string, number>;
-} 
\ No newline at end of file
+  spans: ModerationSpan[];
+}
+
+export enum ScoreSource {
+  LEXICON = 'lexicon',
+  CLASSIFIER = 'classifier',
+  FALLBACK = 'fallback' // The lexicon, standing in because the classifier failed or its circuit is open
+}
+
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open'
+}
+
+export interface CircuitBreakerConfig {
+  failure_threshold: number; // Consecutive failures that open the circuit
+  reset_ms: number; // How long the circuit stays open before one trial call is let through
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+}
+
+export interface ToxicityClassifierConfig {
+  url: string;
+  token?: string; // Sent as a bearer token
+  timeout_ms: number; // Per attempt
+  retries: number; // Extra attempts after a timeout, network error, 429 or 5xx
+  retry_delay_ms: number; // Doubled after each retry
+  circuit_breaker: CircuitBreakerConfig;
+  labels: Record<string, string>; // Model label -> toxicity category; categories are accepted as-is
+}
+
+export interface ToxicityClassifierStatus {
+  circuit: CircuitBreakerStatus;
+  calls: number; // Calls that went to the service
+  failures: number; // Calls that still failed after retries
+  rejected: number; // Calls skipped because the circuit was open
+}
+
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+// 64-bit perceptual hashes as 16 hex digits
+export interface ImageHashes {
+  phash: string;
+  dhash: string;
+}
+
+export interface ImageAnalysis extends ImageInfo {
+  hashes?: ImageHashes; // Missing for formats that can't be decoded
+}
+
+export interface ImageBlocklistEntry {
+  id: string;
+  label: string;
+  description?: string;
+  phash?: string;
+  dhash?: string;
+  added_by?: string;
+  created_at: string;
+}
+
+// Either an image to hash or the hashes themselves
+export interface ImageBlocklistInput {
+  label: string;
+  description?: string;
+  image?: string;
+  phash?: string;
+  dhash?: string;
+}
+
+export interface ImageBlocklistMatch {
+  entry: ImageBlocklistEntry;
+  hash: keyof ImageHashes;
+  distance: number;
+}
+
+export interface TranscriptSegmentRef {
+  index: number;
+  start_ms: number;
+  end_ms?: number; // Missing for the last cue of a plain transcript, which only marks where lines start
+  last_index?: number; // Set on flags whose text runs on into later cues; end_ms is then the last cue's
+}
+
+export interface TranscriptSegmentResult extends TranscriptSegmentRef {
+  text: string;
+  is_flagged: boolean;
+  flag_types: string[];
+  highest_severity: SeverityLevel | null;
+}
+
+export interface TranscriptResult {
+  format: TranscriptFormat;
+  segments: TranscriptSegmentResult[];
+}
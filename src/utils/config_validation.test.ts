@@ -0,0 +1,123 @@
+import { PlatformType } from '../types/content_moderation';
+import { DEFAULT_MODERATION_CONFIG } from '../constants/default_config';
+import { DEFAULT_PLATFORM_PROFILES } from '../constants/platforms';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { validate_moderation_config, validate_platform_profile, validate_threshold } from './config_validation';
+
+function config(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { ...DEFAULT_MODERATION_CONFIG, ...overrides };
+}
+
+describe('validate_moderation_config', () => {
+  it('accepts the default configuration', () => {
+    expect(validate_moderation_config(DEFAULT_MODERATION_CONFIG)).toEqual([]);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(validate_moderation_config([])).toEqual(['configuration must be an object']);
+    expect(validate_moderation_config(null)).toEqual(['configuration must be an object']);
+  });
+
+  it('lists unknown and missing keys', () => {
+    const { enable_spam_detection, sensitivity_threshold, ...rest } = DEFAULT_MODERATION_CONFIG;
+
+    expect(validate_moderation_config({ ...rest, enable_magic: true })).toEqual([
+      'Unknown configuration keys: enable_magic',
+      'Missing configuration keys: sensitivity_threshold, enable_spam_detection'
+    ]);
+  });
+
+  it('accepts a configuration written before enable_secret_detection existed', () => {
+    const { enable_secret_detection, ...earlier_config } = DEFAULT_MODERATION_CONFIG;
+
+    expect(validate_moderation_config(earlier_config)).toEqual([]);
+  });
+
+  it('checks only the keys present in a partial configuration', () => {
+    expect(validate_moderation_config({ sensitivity_threshold: 0.7 }, true)).toEqual([]);
+    expect(validate_moderation_config({ enable_spam_detection: 'yes' }, true)).toEqual(['enable_spam_detection must be a boolean']);
+  });
+
+  it('rejects thresholds outside 0 to 1 and unknown detectors', () => {
+    const errors = validate_moderation_config(config({
+      sensitivity_threshold: 1.5,
+      detector_thresholds: { spam: -0.1, magic: 0.5 }
+    }));
+
+    expect(errors).toEqual([
+      'sensitivity_threshold must be a number between 0 and 1',
+      'detector_thresholds.spam must be a number between 0 and 1',
+      expect.stringMatching(/^detector_thresholds\.magic: unknown detector/)
+    ]);
+  });
+
+  it('accepts platform thresholds only for known platforms, including ones passed in or profiled in the config', () => {
+    const platform_thresholds = { [PlatformType.TWITTER]: { sensitivity_threshold: 0.4 }, forum: { sensitivity_threshold: 0.4 } };
+
+    expect(validate_moderation_config(config({ platform_thresholds }))).toEqual(['platform_thresholds.forum: unknown platform']);
+    expect(validate_moderation_config(config({ platform_thresholds }), false, ['forum'])).toEqual([]);
+    expect(validate_moderation_config(config({
+      platform_thresholds,
+      platform_profiles: { forum: { name: 'Forum', content_field: 'body', character_limit: 10000 } }
+    }))).toEqual([]);
+  });
+
+  it('prefixes rule errors with the rule id and reports duplicate ids', () => {
+    const rule = { id: 'r1', name: 'Rule', description: '', patterns: ['spam'], severity: 'medium', enabled: true, platforms: ['twitter'] };
+
+    expect(validate_moderation_config(config({ rules: [rule, { ...rule, severity: 'extreme' }] }))).toEqual([
+      'rule r1: severity must be one of: low, medium, high, critical',
+      'rule r1: duplicate rule id'
+    ]);
+  });
+
+  it('requires the review queue severities to be in order', () => {
+    const review_queue = { enabled: true, min_severity: 'high', max_severity: 'low' };
+
+    expect(validate_moderation_config(config({ review_queue }))).toEqual(['review_queue.min_severity must not be above max_severity']);
+  });
+
+  it('limits image_match_distance to half the hash length', () => {
+    expect(validate_moderation_config(config({ image_match_distance: 32 }))).toEqual([]);
+    expect(validate_moderation_config(config({ image_match_distance: 33 }))).toEqual(['image_match_distance must be an integer between 0 and 32']);
+  });
+});
+
+describe('validate_platform_profile', () => {
+  it('accepts every built-in profile', () => {
+    for (const profile of Object.values(DEFAULT_PLATFORM_PROFILES)) {
+      expect(validate_platform_profile(profile)).toEqual([]);
+    }
+  });
+
+  it('lists each problem with a profile', () => {
+    const errors = validate_platform_profile({
+      name: 'Forum',
+      content_field: '',
+      character_limit: 0,
+      hashtag_limit: -1,
+      banned_link_types: ['carrier_pigeon'],
+      image: { formats: [], max_bytes: 0 },
+      colour: 'blue'
+    });
+
+    expect(errors).toEqual([
+      'unknown keys colour',
+      'content_field must be a non-empty string',
+      'character_limit must be a positive integer',
+      'hashtag_limit must be a non-negative integer',
+      expect.stringMatching(/^banned_link_types must be an array of: /),
+      expect.stringMatching(/^image\.formats must be a non-empty array of: /),
+      'image.max_bytes must be a positive integer'
+    ]);
+  });
+});
+
+describe('validate_threshold', () => {
+  it('returns thresholds between 0 and 1 and throws for any other value', () => {
+    expect(validate_threshold(0)).toBe(0);
+    expect(validate_threshold(1)).toBe(1);
+    expect(() => validate_threshold(1.01)).toThrow(NOTIFICATION_MESSAGES.INVALID_THRESHOLD);
+    expect(() => validate_threshold(NaN)).toThrow(NOTIFICATION_MESSAGES.INVALID_THRESHOLD);
+  });
+});
@@ -0,0 +1,359 @@
+import { ImageFormat, LinkType, ModerationConfig, PlatformType, SeverityLevel } from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { RuleEngine } from '../services/rule_engine';
+import { PolicyEngine } from '../services/policy_engine';
+import { detector_registry } from '../services/detector_registry';
+
+const BOOLEAN_KEYS: Array<keyof ModerationConfig> = [
+  'enable_sentiment_analysis',
+  'enable_profanity_detection',
+  'enable_toxicity_detection',
+  'enable_spam_detection',
+  'enable_hate_speech_detection',
+  'enable_violence_detection',
+  'enable_sexual_content_detection',
+  'enable_personal_info_detection',
+  'enable_secret_detection'
+];
+
+const CONFIG_KEYS: Array<keyof ModerationConfig> = [
+  'rules',
+  'review_queue',
+  'sensitivity_threshold',
+  'detector_thresholds',
+  'platform_thresholds',
+  'decision_policy',
+  'platform_profiles',
+  'detectors',
+  'image_match_distance',
+  ...BOOLEAN_KEYS
+];
+
+// Switches added after the original configuration shape are optional, and left out they take their defaults
+const OPTIONAL_BOOLEAN_KEYS: Array<keyof ModerationConfig> = ['enable_secret_detection'];
+
+const REQUIRED_KEYS: Array<keyof ModerationConfig> = [
+  'rules',
+  'sensitivity_threshold',
+  ...BOOLEAN_KEYS.filter(key => !OPTIONAL_BOOLEAN_KEYS.includes(key))
+];
+
+const PLATFORM_ID_PATTERN = /^[a-z0-9_-]+$/;
+
+const PROFILE_KEYS = [
+  'name',
+  'content_field',
+  'character_limit',
+  'character_weights',
+  'hashtag_limit',
+  'mention_limit',
+  'link_limit',
+  'banned_link_types',
+  'fields',
+  'image',
+  'recommendation'
+];
+
+const IMAGE_LIMIT_KEYS = ['max_bytes', 'min_width', 'min_height', 'max_width', 'max_height'];
+const IMAGE_RATIO_KEYS = ['min_aspect_ratio', 'max_aspect_ratio'];
+
+// Hashes are 64 bits, and past half of them any two images look alike
+const MAX_IMAGE_MATCH_DISTANCE = 32;
+
+const SEVERITY_ORDER = [SeverityLevel.LOW, SeverityLevel.MEDIUM, SeverityLevel.HIGH, SeverityLevel.CRITICAL];
+
+// Validates a full configuration, or with partial set only the keys that are present (e.g. tenant overrides).
+// Platforms are the built-in ones, those profiled in the config itself and any passed in platforms.
+export function validate_moderation_config(config: unknown, partial: boolean = false, platforms: string[] = []): string[] {
+  if (!is_object(config)) {
+    return ['configuration must be an object'];
+  }
+
+  const errors: string[] = [];
+  const known_platforms = [
+    ...new Set([
+      ...Object.values(PlatformType),
+      ...platforms,
+      ...(is_object(config.platform_profiles) ? Object.keys(config.platform_profiles) : [])
+    ])
+  ];
+
+  const unknown_keys = Object.keys(config).filter(key => !CONFIG_KEYS.includes(key as keyof ModerationConfig));
+  if (unknown_keys.length > 0) {
+    errors.push(`Unknown configuration keys: ${unknown_keys.join(', ')}`);
+  }
+
+  if (!partial) {
+    const missing_keys = REQUIRED_KEYS.filter(key => config[key] === undefined);
+    if (missing_keys.length > 0) {
+      errors.push(`Missing configuration keys: ${missing_keys.join(', ')}`);
+    }
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+
+  if (config.rules !== undefined) {
+    if (!Array.isArray(config.rules)) {
+      errors.push('rules must be an array');
+    } else {
+      const rule_engine = new RuleEngine();
+      const seen_ids = new Set<string>();
+      for (const rule of config.rules) {
+        errors.push(...rule_engine.validate_rule(rule, known_platforms).map(error => `rule ${rule?.id}: ${error}`));
+        if (rule?.id !== undefined && seen_ids.has(rule.id)) {
+          errors.push(`rule ${rule.id}: duplicate rule id`);
+        }
+        seen_ids.add(rule?.id);
+      }
+    }
+  }
+
+  if (config.review_queue !== undefined) {
+    errors.push(...validate_review_queue(config.review_queue));
+  }
+
+  if (config.sensitivity_threshold !== undefined && !is_threshold(config.sensitivity_threshold)) {
+    errors.push('sensitivity_threshold must be a number between 0 and 1');
+  }
+
+  if (config.detector_thresholds !== undefined) {
+    errors.push(...validate_detector_thresholds(config.detector_thresholds, 'detector_thresholds'));
+  }
+
+  if (config.platform_thresholds !== undefined) {
+    errors.push(...validate_platform_thresholds(config.platform_thresholds, known_platforms));
+  }
+
+  if (config.platform_profiles !== undefined) {
+    errors.push(...validate_platform_profiles(config.platform_profiles));
+  }
+
+  if (config.detectors !== undefined) {
+    errors.push(...detector_registry.validate_settings(config.detectors));
+  }
+
+  if (config.image_match_distance !== undefined &&
+      (!is_count(config.image_match_distance) || config.image_match_distance > MAX_IMAGE_MATCH_DISTANCE)) {
+    errors.push(`image_match_distance must be an integer between 0 and ${MAX_IMAGE_MATCH_DISTANCE}`);
+  }
+
+  if (config.decision_policy !== undefined) {
+    errors.push(...new PolicyEngine().validate_policy(config.decision_policy, known_platforms).map(error => `decision_policy: ${error}`));
+  }
+
+  return errors;
+}
+
+function validate_review_queue(review_queue: unknown): string[] {
+  if (!is_object(review_queue)) {
+    return ['review_queue must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof review_queue.enabled !== 'boolean') {
+    errors.push('review_queue.enabled must be a boolean');
+  }
+
+  const min_index = SEVERITY_ORDER.indexOf(review_queue.min_severity as SeverityLevel);
+  const max_index = SEVERITY_ORDER.indexOf(review_queue.max_severity as SeverityLevel);
+  if (min_index === -1 || max_index === -1) {
+    errors.push(`review_queue.min_severity and max_severity must be one of: ${SEVERITY_ORDER.join(', ')}`);
+  } else if (min_index > max_index) {
+    errors.push('review_queue.min_severity must not be above max_severity');
+  }
+
+  return errors;
+}
+
+function validate_detector_thresholds(thresholds: unknown, path: string): string[] {
+  if (!is_object(thresholds)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  const detectors = detector_registry.threshold_names();
+  for (const [detector, threshold] of Object.entries(thresholds)) {
+    if (!detectors.includes(detector)) {
+      errors.push(`${path}.${detector}: unknown detector (expected one of: ${detectors.join(', ')})`);
+    } else if (!is_threshold(threshold)) {
+      errors.push(`${path}.${detector} must be a number between 0 and 1`);
+    }
+  }
+  return errors;
+}
+
+function validate_platform_thresholds(platform_thresholds: unknown, platforms: string[]): string[] {
+  if (!is_object(platform_thresholds)) {
+    return ['platform_thresholds must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const [platform, thresholds] of Object.entries(platform_thresholds)) {
+    const path = `platform_thresholds.${platform}`;
+    if (!platforms.includes(platform)) {
+      errors.push(`${path}: unknown platform`);
+      continue;
+    }
+    if (!is_object(thresholds)) {
+      errors.push(`${path} must be an object`);
+      continue;
+    }
+
+    const unknown_keys = Object.keys(thresholds).filter(key => key !== 'sensitivity_threshold' && key !== 'detector_thresholds');
+    if (unknown_keys.length > 0) {
+      errors.push(`${path}: unknown keys ${unknown_keys.join(', ')}`);
+    }
+    if (thresholds.sensitivity_threshold !== undefined && !is_threshold(thresholds.sensitivity_threshold)) {
+      errors.push(`${path}.sensitivity_threshold must be a number between 0 and 1`);
+    }
+    if (thresholds.detector_thresholds !== undefined) {
+      errors.push(...validate_detector_thresholds(thresholds.detector_thresholds, `${path}.detector_thresholds`));
+    }
+  }
+
+  return errors;
+}
+
+function validate_platform_profiles(platform_profiles: unknown): string[] {
+  if (!is_object(platform_profiles)) {
+    return ['platform_profiles must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const [platform, profile] of Object.entries(platform_profiles)) {
+    if (!PLATFORM_ID_PATTERN.test(platform)) {
+      errors.push(`platform_profiles.${platform}: platform ids must only contain lowercase letters, digits, "_" or "-"`);
+    }
+    errors.push(...validate_platform_profile(profile).map(error => `platform_profiles.${platform}: ${error}`));
+  }
+
+  return errors;
+}
+
+export function validate_platform_profile(profile: unknown): string[] {
+  if (!is_object(profile)) {
+    return ['profile must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  const unknown_keys = Object.keys(profile).filter(key => !PROFILE_KEYS.includes(key));
+  if (unknown_keys.length > 0) {
+    errors.push(`unknown keys ${unknown_keys.join(', ')}`);
+  }
+
+  for (const key of ['name', 'content_field']) {
+    if (typeof profile[key] !== 'string' || profile[key].trim().length === 0) {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+
+  if (profile.recommendation !== undefined && typeof profile.recommendation !== 'string') {
+    errors.push('recommendation must be a string');
+  }
+
+  if (!is_count(profile.character_limit) || profile.character_limit === 0) {
+    errors.push('character_limit must be a positive integer');
+  }
+
+  for (const key of ['hashtag_limit', 'mention_limit', 'link_limit']) {
+    if (profile[key] !== undefined && !is_count(profile[key])) {
+      errors.push(`${key} must be a non-negative integer`);
+    }
+  }
+
+  if (profile.character_weights !== undefined) {
+    if (!is_object(profile.character_weights)) {
+      errors.push('character_weights must be an object');
+    } else {
+      for (const [key, weight] of Object.entries(profile.character_weights)) {
+        if (!['url_length', 'emoji_weight', 'wide_character_weight'].includes(key)) {
+          errors.push(`character_weights: unknown key ${key}`);
+        } else if (!is_count(weight)) {
+          errors.push(`character_weights.${key} must be a non-negative integer`);
+        }
+      }
+    }
+  }
+
+  if (profile.banned_link_types !== undefined) {
+    const link_types = Object.values(LinkType) as string[];
+    if (!Array.isArray(profile.banned_link_types) || profile.banned_link_types.some(type => !link_types.includes(type))) {
+      errors.push(`banned_link_types must be an array of: ${link_types.join(', ')}`);
+    }
+  }
+
+  if (profile.fields !== undefined) {
+    if (!is_object(profile.fields)) {
+      errors.push('fields must be an object');
+    } else {
+      for (const [field, limits] of Object.entries(profile.fields)) {
+        if (!is_object(limits) || !is_count(limits.character_limit) || limits.character_limit === 0) {
+          errors.push(`fields.${field}.character_limit must be a positive integer`);
+        } else if (limits.required !== undefined && typeof limits.required !== 'boolean') {
+          errors.push(`fields.${field}.required must be a boolean`);
+        }
+      }
+    }
+  }
+
+  if (profile.image !== undefined) {
+    errors.push(...validate_image_limits(profile.image));
+  }
+
+  return errors;
+}
+
+function validate_image_limits(image: unknown): string[] {
+  if (!is_object(image)) {
+    return ['image must be an object'];
+  }
+
+  const errors: string[] = [];
+  const unknown_keys = Object.keys(image).filter(key => key !== 'formats' && !IMAGE_LIMIT_KEYS.includes(key) && !IMAGE_RATIO_KEYS.includes(key));
+  if (unknown_keys.length > 0) {
+    errors.push(`image: unknown keys ${unknown_keys.join(', ')}`);
+  }
+
+  const formats = Object.values(ImageFormat) as string[];
+  if (!Array.isArray(image.formats) || image.formats.length === 0 || image.formats.some(format => !formats.includes(format))) {
+    errors.push(`image.formats must be a non-empty array of: ${formats.join(', ')}`);
+  }
+  for (const key of IMAGE_LIMIT_KEYS) {
+    if (image[key] !== undefined && (!is_count(image[key]) || image[key] === 0)) {
+      errors.push(`image.${key} must be a positive integer`);
+    }
+  }
+  for (const key of IMAGE_RATIO_KEYS) {
+    if (image[key] !== undefined && (typeof image[key] !== 'number' || !Number.isFinite(image[key]) || image[key] <= 0)) {
+      errors.push(`image.${key} must be a positive number`);
+    }
+  }
+
+  return errors;
+}
+
+// For detector setters: returns the threshold, or throws if it is out of range
+export function validate_threshold(threshold: number): number {
+  if (!is_threshold(threshold)) {
+    throw new Error(NOTIFICATION_MESSAGES.INVALID_THRESHOLD);
+  }
+  return threshold;
+}
+
+function is_object(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function is_count(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function is_threshold(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { ContentType, EvaluationSample, PlatformType } from '../types/content_moderation';
+
+export interface DatasetDefaults {
+  platform: PlatformType;
+  content_type: ContentType;
+}
+
+// Separates labels in a CSV labels column, e.g. "spam|personal_info:email"
+const CSV_LABEL_SEPARATOR = '|';
+
+// Reads a labeled dataset from a .jsonl or .csv file
+export function read_dataset(file_path: string, defaults: DatasetDefaults): EvaluationSample[] {
+  const text = fs.readFileSync(file_path, 'utf8');
+  const extension = path.extname(file_path).toLowerCase();
+
+  if (extension === '.csv') {
+    return parse_csv_dataset(text, defaults);
+  }
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return parse_jsonl_dataset(text, defaults);
+  }
+  throw new Error(`Unsupported dataset format "${extension}", expected .jsonl or .csv`);
+}
+
+export function parse_jsonl_dataset(text: string, defaults: DatasetDefaults): EvaluationSample[] {
+  const samples: EvaluationSample[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (line.trim().length === 0) return;
+
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: invalid JSON`);
+    }
+
+    samples.push(to_sample(record, `line_${index + 1}`, defaults, `Line ${index + 1}`));
+  });
+
+  return samples;
+}
+
+// Expects a header row; content is required, id, platform, content_type and labels are optional
+export function parse_csv_dataset(text: string, defaults: DatasetDefaults): EvaluationSample[] {
+  const rows = parse_csv(text).filter(row => row.some(cell => cell.trim().length > 0));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  if (!header.includes('content')) {
+    throw new Error('CSV header must include a content column');
+  }
+
+  return rows.slice(1).map((row, index) => {
+    const record: Record<string, unknown> = {};
+    header.forEach((column, column_index) => {
+      record[column] = row[column_index] ?? '';
+    });
+
+    const labels = String(record.labels ?? '');
+    record.labels = labels.split(CSV_LABEL_SEPARATOR).map(label => label.trim()).filter(label => label.length > 0);
+    for (const column of ['id', 'platform', 'content_type']) {
+      if (record[column] === '') delete record[column];
+    }
+
+    return to_sample(record, `row_${index + 2}`, defaults, `Row ${index + 2}`);
+  });
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parse_csv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function to_sample(record: Record<string, unknown>, fallback_id: string, defaults: DatasetDefaults, location: string): EvaluationSample {
+  if (typeof record.content !== 'string' || record.content.trim().length === 0) {
+    throw new Error(`${location}: content must be a non-empty string`);
+  }
+
+  const labels = record.labels === undefined ? [] : record.labels;
+  if (!Array.isArray(labels) || labels.some(label => typeof label !== 'string')) {
+    throw new Error(`${location}: labels must be an array of strings`);
+  }
+
+  return {
+    id: record.id === undefined ? fallback_id : String(record.id),
+    content: record.content,
+    platform: (record.platform as PlatformType) || defaults.platform,
+    content_type: (record.content_type as ContentType) || defaults.content_type,
+    metadata: record.metadata as Record<string, unknown> | undefined,
+    labels: [...new Set(labels as string[])]
+  };
+}
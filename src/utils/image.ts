@@ -0,0 +1,160 @@
+import { PNG } from 'pngjs';
+import { decode as decode_jpeg } from 'jpeg-js';
+import { ImageAnalysis, ImageFormat, ImageInfo } from '../types/content_moderation';
+import { NOTIFICATION_MESSAGES } from '../constants/notifications';
+import { GrayscaleImage, dhash, phash } from './perceptual_hash';
+
+// Checked from the header before decoding, since every decoded pixel takes 4 bytes and is walked
+// synchronously. 12 megapixels (about 48MB decoded) covers photos from most phone cameras.
+const MAX_IMAGE_PIXELS = 12 * 1000 * 1000;
+
+// Decoded images are averaged down to at most this many pixels a side before hashing
+const WORKING_SIZE = 256;
+
+const DATA_URL_PREFIX = /^data:image\/[a-z0-9.+-]+;base64,/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Reads an image from base64 or a data URL, checks it and hashes it where the format can be decoded.
+// Throws when the content isn't an image or is too large to decode.
+export function analyze_image(content: string): ImageAnalysis {
+  const buffer = decode_image_payload(content);
+  const info = buffer ? read_image_info(buffer) : undefined;
+  if (!buffer || !info) {
+    throw new Error(NOTIFICATION_MESSAGES.INVALID_IMAGE);
+  }
+  if (info.width * info.height > MAX_IMAGE_PIXELS) {
+    throw new Error(NOTIFICATION_MESSAGES.IMAGE_TOO_LARGE);
+  }
+
+  let image: GrayscaleImage | undefined;
+  try {
+    image = decode_grayscale(buffer, info.format);
+  } catch (error) {
+    throw new Error(NOTIFICATION_MESSAGES.INVALID_IMAGE);
+  }
+
+  return image ? { ...info, hashes: { phash: phash(image), dhash: dhash(image) } } : info;
+}
+
+export function decode_image_payload(content: string): Buffer | undefined {
+  const base64 = content.trim().replace(DATA_URL_PREFIX, '').replace(/\s+/g, '');
+  if (base64.length === 0 || !BASE64_PATTERN.test(base64)) {
+    return undefined;
+  }
+  return Buffer.from(base64, 'base64');
+}
+
+// Format and dimensions come from the file header, so they are known even for formats that aren't decoded
+export function read_image_info(buffer: Buffer): ImageInfo | undefined {
+  const size = read_png_size(buffer) ?? read_jpeg_size(buffer) ?? read_gif_size(buffer) ?? read_webp_size(buffer);
+  if (!size || size.width === 0 || size.height === 0) {
+    return undefined;
+  }
+  return { ...size, bytes: buffer.length };
+}
+
+type ImageSize = Omit<ImageInfo, 'bytes'>;
+
+function read_png_size(buffer: Buffer): ImageSize | undefined {
+  if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE) || buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    return undefined;
+  }
+  return { format: ImageFormat.PNG, width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+// Walks the segments up to the first start-of-frame marker, which holds the dimensions
+function read_jpeg_size(buffer: Buffer): ImageSize | undefined {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return undefined;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return undefined;
+    const marker = buffer[offset + 1];
+
+    // Fill bytes, and markers that have no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), which share the range
+    const is_frame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (is_frame) {
+      if (offset + 9 > buffer.length) return undefined;
+      return { format: ImageFormat.JPEG, width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return undefined;
+}
+
+function read_gif_size(buffer: Buffer): ImageSize | undefined {
+  const signature = buffer.toString('ascii', 0, 6);
+  if (buffer.length < 10 || (signature !== 'GIF87a' && signature !== 'GIF89a')) {
+    return undefined;
+  }
+  return { format: ImageFormat.GIF, width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+}
+
+// Lossy (VP8), lossless (VP8L) and extended (VP8X) WebP each keep the size in a different place
+function read_webp_size(buffer: Buffer): ImageSize | undefined {
+  if (buffer.length < 30 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WEBP') {
+    return undefined;
+  }
+
+  switch (buffer.toString('ascii', 12, 16)) {
+    case 'VP8 ':
+      return { format: ImageFormat.WEBP, width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = buffer.readUInt32LE(21);
+      return { format: ImageFormat.WEBP, width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { format: ImageFormat.WEBP, width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    default:
+      return undefined;
+  }
+}
+
+// PNG and JPEG are decoded; GIF and WebP are not, so they can't be hashed
+function decode_grayscale(buffer: Buffer, format: ImageFormat): GrayscaleImage | undefined {
+  let rgba: { width: number; height: number; data: Uint8Array };
+  if (format === ImageFormat.PNG) {
+    rgba = PNG.sync.read(buffer);
+  } else if (format === ImageFormat.JPEG) {
+    rgba = decode_jpeg(buffer, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_IMAGE_PIXELS / 1000000 });
+  } else {
+    return undefined;
+  }
+
+  // Reduced while converting, so the grayscale copy stays small however large the image is.
+  // Transparent pixels are composited over white, the way most feeds show them.
+  const width = Math.min(rgba.width, WORKING_SIZE);
+  const height = Math.min(rgba.height, WORKING_SIZE);
+  const sums = new Float64Array(width * height);
+  const counts = new Uint32Array(width * height);
+  const data = rgba.data;
+
+  for (let y = 0; y < rgba.height; y++) {
+    const row = Math.floor(y * height / rgba.height) * width;
+    for (let x = 0; x < rgba.width; x++) {
+      const i = (y * rgba.width + x) * 4;
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      const cell = row + Math.floor(x * width / rgba.width);
+      sums[cell] += (luminance * data[i + 3] + 255 * (255 - data[i + 3])) / 255;
+      counts[cell]++;
+    }
+  }
+
+  return { width, height, pixels: sums.map((sum, cell) => sum / counts[cell]) };
+}
@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+
+export function read_json_file<T>(file_path: string, fallback: T): T {
+  if (!fs.existsSync(file_path)) {
+    return fallback;
+  }
+
+  return JSON.parse(fs.readFileSync(file_path, 'utf8')) as T;
+}
+
+export function write_json_file(file_path: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file_path), { recursive: true });
+
+  // Write to a temp file first so a crash never leaves a half-written file
+  const temp_path = `${file_path}.tmp`;
+  fs.writeFileSync(temp_path, JSON.stringify(data, null, 2));
+  fs.renameSync(temp_path, file_path);
+}
+
+export function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,64 @@
+import { GrayscaleImage, dhash, hamming_distance, is_hash, phash } from './perceptual_hash';
+
+// Samples a brightness function over the unit square, so the same picture can be drawn at any size
+function draw(width: number, height: number, brightness: (x: number, y: number) => number): GrayscaleImage {
+  const pixels = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = Math.max(0, Math.min(255, brightness((x + 0.5) / width, (y + 0.5) / height)));
+    }
+  }
+  return { width, height, pixels };
+}
+
+const hills = (x: number, y: number): number => 120 + 70 * Math.sin(x * 5 + 1) * Math.cos(y * 3) + 50 * y - 30 * Math.hypot(x - 0.7, y - 0.3);
+const checkerboard = (x: number, y: number): number => ((Math.floor(x * 4) + Math.floor(y * 4)) % 2 === 0 ? 230 : 20);
+
+describe('dhash', () => {
+  it('sets a bit for each pixel brighter than the one to its left', () => {
+    expect(dhash(draw(90, 80, x => x * 255))).toBe('ffffffffffffffff');
+    expect(dhash(draw(90, 80, x => 255 - x * 255))).toBe('0000000000000000');
+  });
+});
+
+describe('phash', () => {
+  it('returns 64 bits as hex', () => {
+    expect(is_hash(phash(draw(64, 64, hills)))).toBe(true);
+  });
+
+  it('stays close when an image is resized or brightened', () => {
+    const original = phash(draw(256, 192, hills));
+
+    expect(hamming_distance(original, phash(draw(100, 75, hills)))).toBeLessThanOrEqual(4);
+    expect(hamming_distance(original, phash(draw(256, 192, (x, y) => hills(x, y) + 20)))).toBeLessThanOrEqual(4);
+  });
+
+  it('is far apart for different images, including a mirrored copy', () => {
+    const original = phash(draw(128, 128, hills));
+
+    expect(hamming_distance(original, phash(draw(128, 128, checkerboard)))).toBeGreaterThan(16);
+    expect(hamming_distance(original, phash(draw(128, 128, (x, y) => hills(1 - x, y))))).toBeGreaterThan(16);
+  });
+
+  it('hashes images smaller than its thumbnail by repeating pixels', () => {
+    expect(is_hash(phash(draw(8, 6, hills)))).toBe(true);
+  });
+});
+
+describe('hamming_distance', () => {
+  it('counts the differing bits across all 64', () => {
+    expect(hamming_distance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hamming_distance('0000000000000000', '0000000000000001')).toBe(1);
+    expect(hamming_distance('8000000000000000', '0000000000000001')).toBe(2);
+    expect(hamming_distance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+});
+
+describe('is_hash', () => {
+  it('accepts only 16 lowercase hex digits', () => {
+    expect(is_hash('0123456789abcdef')).toBe(true);
+    expect(is_hash('0123456789ABCDEF')).toBe(false);
+    expect(is_hash('0123456789abcde')).toBe(false);
+    expect(is_hash(42)).toBe(false);
+  });
+});
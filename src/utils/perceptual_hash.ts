@@ -0,0 +1,104 @@
+// Perceptual hashes stay close when an image is resized, recompressed or lightly edited,
+// so near-copies of a known image are found by Hamming distance rather than equality.
+
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  pixels: Float64Array; // Row by row, 0 (black) to 255 (white)
+}
+
+const HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+// pHash keeps the lowest 8x8 frequencies of a 32x32 DCT
+const PHASH_SIZE = 32;
+const PHASH_FREQUENCIES = 8;
+
+const DCT_COSINES = Array.from({ length: PHASH_SIZE }, (_, frequency) =>
+  Array.from({ length: PHASH_SIZE }, (_, position) => Math.cos(((2 * position + 1) * frequency * Math.PI) / (2 * PHASH_SIZE)))
+);
+
+// Difference hash: whether each pixel of a 9x8 thumbnail is brighter than the one to its left
+export function dhash(image: GrayscaleImage): string {
+  const pixels = resize(image, 9, 8);
+  const bits: boolean[] = [];
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x + 1] > pixels[y * 9 + x]);
+    }
+  }
+
+  return to_hex(bits);
+}
+
+// Perceptual hash: whether each low frequency of a 32x32 thumbnail is above their median
+export function phash(image: GrayscaleImage): string {
+  const pixels = resize(image, PHASH_SIZE, PHASH_SIZE);
+
+  // Rows first, then columns, keeping only the frequencies the hash uses
+  const rows: number[][] = [];
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    rows.push(DCT_COSINES.slice(0, PHASH_FREQUENCIES).map(cosines =>
+      cosines.reduce((sum, cosine, x) => sum + cosine * pixels[y * PHASH_SIZE + x], 0)
+    ));
+  }
+
+  const frequencies: number[] = [];
+  for (let v = 0; v < PHASH_FREQUENCIES; v++) {
+    for (let u = 0; u < PHASH_FREQUENCIES; u++) {
+      frequencies.push(DCT_COSINES[v].reduce((sum, cosine, y) => sum + cosine * rows[y][u], 0));
+    }
+  }
+
+  const sorted = [...frequencies].sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return to_hex(frequencies.map(frequency => frequency > median));
+}
+
+export function hamming_distance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let difference = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (difference) {
+      distance += difference & 1;
+      difference >>>= 1;
+    }
+  }
+  return distance;
+}
+
+export function is_hash(value: unknown): value is string {
+  return typeof value === 'string' && HASH_PATTERN.test(value);
+}
+
+// Each target pixel is the average of the source pixels it covers; small images repeat pixels instead
+function resize(image: GrayscaleImage, width: number, height: number): Float64Array {
+  const result = new Float64Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const y_start = Math.floor(y * image.height / height);
+    const y_end = Math.max(y_start + 1, Math.floor((y + 1) * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const x_start = Math.floor(x * image.width / width);
+      const x_end = Math.max(x_start + 1, Math.floor((x + 1) * image.width / width));
+
+      let sum = 0;
+      for (let source_y = y_start; source_y < y_end; source_y++) {
+        for (let source_x = x_start; source_x < x_end; source_x++) {
+          sum += image.pixels[source_y * image.width + source_x];
+        }
+      }
+      result[y * width + x] = sum / ((y_end - y_start) * (x_end - x_start));
+    }
+  }
+
+  return result;
+}
+
+function to_hex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16);
+  }
+  return hex;
+}
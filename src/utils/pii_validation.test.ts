@@ -0,0 +1,87 @@
+import { check_phone_plausibility, detect_card_network, digits_only, is_valid_ssn, passes_luhn } from './pii_validation';
+
+describe('passes_luhn', () => {
+  it('accepts numbers whose checksum adds up and rejects one digit off', () => {
+    expect(passes_luhn('4111111111111111')).toBe(true);
+    expect(passes_luhn('79927398713')).toBe(true);
+    expect(passes_luhn('4111111111111112')).toBe(false);
+  });
+
+  it('rejects an empty number', () => {
+    expect(passes_luhn('')).toBe(false);
+  });
+});
+
+describe('detect_card_network', () => {
+  it('matches the prefix and length of each network', () => {
+    expect(detect_card_network('4111111111111111')).toBe('visa');
+    expect(detect_card_network('5500000000000004')).toBe('mastercard');
+    expect(detect_card_network('2221000000000009')).toBe('mastercard');
+    expect(detect_card_network('378282246310005')).toBe('amex');
+    expect(detect_card_network('6011111111111117')).toBe('discover');
+    expect(detect_card_network('3530111333300000')).toBe('jcb');
+    expect(detect_card_network('30569309025904')).toBe('diners');
+  });
+
+  it('returns undefined for a known prefix at the wrong length or an unknown prefix', () => {
+    expect(detect_card_network('37828224631000')).toBeUndefined();
+    expect(detect_card_network('9111111111111111')).toBeUndefined();
+  });
+});
+
+describe('is_valid_ssn', () => {
+  it('accepts an issuable number with or without dashes', () => {
+    expect(is_valid_ssn('536-22-1234')).toBe(true);
+    expect(is_valid_ssn('536221234')).toBe(true);
+  });
+
+  it('rejects areas, groups and serials that are never issued', () => {
+    expect(is_valid_ssn('000-22-1234')).toBe(false);
+    expect(is_valid_ssn('666-22-1234')).toBe(false);
+    expect(is_valid_ssn('912-22-1234')).toBe(false);
+    expect(is_valid_ssn('536-00-1234')).toBe(false);
+    expect(is_valid_ssn('536-22-0000')).toBe(false);
+  });
+
+  it('rejects well-known example numbers and the wrong number of digits', () => {
+    expect(is_valid_ssn('078-05-1120')).toBe(false);
+    expect(is_valid_ssn('123-45-6789')).toBe(false);
+    expect(is_valid_ssn('536-22-123')).toBe(false);
+  });
+});
+
+describe('check_phone_plausibility', () => {
+  it('checks international numbers against the length expected for their country code', () => {
+    expect(check_phone_plausibility('+44 20 7946 0958')).toEqual({ plausible: true, country: 'GB' });
+    expect(check_phone_plausibility('+351 912 345 678')).toEqual({ plausible: true, country: 'PT' });
+    expect(check_phone_plausibility('+33 1 23 45 67')).toEqual({ plausible: false, country: 'FR' });
+  });
+
+  it('accepts any E.164-shaped number with an unknown country code', () => {
+    expect(check_phone_plausibility('+971 50 123 4567')).toEqual({ plausible: true });
+    expect(check_phone_plausibility('+971 50 123 4567 8901')).toEqual({ plausible: false });
+  });
+
+  it('treats numbers without a country code as North American', () => {
+    expect(check_phone_plausibility('(415) 555-0132')).toEqual({ plausible: true, country: 'US/CA' });
+    expect(check_phone_plausibility('1-415-555-0132')).toEqual({ plausible: true, country: 'US/CA' });
+    expect(check_phone_plausibility('+1 415 555 0132')).toEqual({ plausible: true, country: 'US/CA' });
+  });
+
+  it('rejects North American area codes and exchanges that start with 0 or 1 or are N11 service codes', () => {
+    expect(check_phone_plausibility('(115) 555-0132')).toEqual({ plausible: false, country: 'US/CA' });
+    expect(check_phone_plausibility('(415) 155-0132')).toEqual({ plausible: false, country: 'US/CA' });
+    expect(check_phone_plausibility('(411) 555-0132')).toEqual({ plausible: false, country: 'US/CA' });
+    expect(check_phone_plausibility('(415) 911-0132')).toEqual({ plausible: false, country: 'US/CA' });
+  });
+
+  it('rejects digit runs of any other length', () => {
+    expect(check_phone_plausibility('555-0132')).toEqual({ plausible: false });
+  });
+});
+
+describe('digits_only', () => {
+  it('drops everything but digits', () => {
+    expect(digits_only('+1 (415) 555-0132')).toBe('14155550132');
+  });
+});
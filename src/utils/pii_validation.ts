@@ -0,0 +1,134 @@
+export interface CardNetwork {
+  name: string;
+  prefixes: Array<[number, number]>;
+  lengths: number[];
+}
+
+// Prefix ranges are inclusive and compared against the leading digits of the same width
+const CARD_NETWORKS: CardNetwork[] = [
+  { name: 'visa', prefixes: [[4, 4]], lengths: [13, 16, 19] },
+  { name: 'mastercard', prefixes: [[51, 55], [2221, 2720]], lengths: [16] },
+  { name: 'amex', prefixes: [[34, 34], [37, 37]], lengths: [15] },
+  { name: 'discover', prefixes: [[6011, 6011], [65, 65], [644, 649]], lengths: [16, 19] },
+  { name: 'jcb', prefixes: [[3528, 3589]], lengths: [16, 19] },
+  { name: 'diners', prefixes: [[300, 305], [36, 36], [38, 39]], lengths: [14, 16] }
+];
+
+// Significant digits expected after the country calling code
+const COUNTRY_PHONE_LENGTHS: Record<string, { country: string; lengths: number[] }> = {
+  '1': { country: 'US/CA', lengths: [10] },
+  '44': { country: 'GB', lengths: [10] },
+  '49': { country: 'DE', lengths: [10, 11] },
+  '33': { country: 'FR', lengths: [9] },
+  '34': { country: 'ES', lengths: [9] },
+  '39': { country: 'IT', lengths: [9, 10] },
+  '351': { country: 'PT', lengths: [9] },
+  '55': { country: 'BR', lengths: [10, 11] },
+  '52': { country: 'MX', lengths: [10] },
+  '81': { country: 'JP', lengths: [9, 10] },
+  '91': { country: 'IN', lengths: [10] },
+  '61': { country: 'AU', lengths: [9] },
+  '86': { country: 'CN', lengths: [11] }
+};
+
+export function digits_only(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+export function passes_luhn(number: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = number.length - 1; i >= 0; i--) {
+    let digit = parseInt(number[i], 10);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return number.length > 0 && sum % 10 === 0;
+}
+
+export function detect_card_network(number: string): string | undefined {
+  for (const network of CARD_NETWORKS) {
+    if (!network.lengths.includes(number.length)) continue;
+
+    const matches_prefix = network.prefixes.some(([low, high]) => {
+      const width = String(low).length;
+      const prefix = parseInt(number.slice(0, width), 10);
+      return prefix >= low && prefix <= high;
+    });
+
+    if (matches_prefix) return network.name;
+  }
+  return undefined;
+}
+
+// Area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+export function is_valid_ssn(ssn: string): boolean {
+  const digits = digits_only(ssn);
+  if (digits.length !== 9) return false;
+
+  const area = parseInt(digits.slice(0, 3), 10);
+  const group = parseInt(digits.slice(3, 5), 10);
+  const serial = parseInt(digits.slice(5), 10);
+
+  if (area === 0 || area === 666 || area >= 900) return false;
+  if (group === 0 || serial === 0) return false;
+
+  // Numbers widely published in advertising and examples
+  return !['078051120', '219099999', '123456789'].includes(digits);
+}
+
+export interface PhonePlausibility {
+  plausible: boolean;
+  country?: string;
+}
+
+export function check_phone_plausibility(raw: string): PhonePlausibility {
+  const digits = digits_only(raw);
+
+  if (raw.trim().startsWith('+')) {
+    // E.164 allows at most 15 digits including the country code
+    if (digits.length < 8 || digits.length > 15) return { plausible: false };
+
+    for (const code_length of [1, 2, 3]) {
+      const entry = COUNTRY_PHONE_LENGTHS[digits.slice(0, code_length)];
+      if (!entry) continue;
+
+      const national = digits.slice(code_length);
+      if (!entry.lengths.includes(national.length)) return { plausible: false, country: entry.country };
+      if (code_length === 1) return { ...check_nanp(national), country: entry.country };
+      return { plausible: true, country: entry.country };
+    }
+
+    // Unknown country code: accept anything E.164-shaped
+    return { plausible: true };
+  }
+
+  // Without a country code, assume the North American numbering plan
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return { ...check_nanp(digits.slice(1)), country: 'US/CA' };
+  }
+  if (digits.length === 10) {
+    return { ...check_nanp(digits), country: 'US/CA' };
+  }
+
+  return { plausible: false };
+}
+
+function check_nanp(national: string): PhonePlausibility {
+  if (national.length !== 10) return { plausible: false };
+
+  const area_code = national.slice(0, 3);
+  const exchange = national.slice(3, 6);
+
+  // Area codes and exchanges start with 2-9, and N11 codes are service numbers
+  if (!/^[2-9]/.test(area_code) || !/^[2-9]/.test(exchange)) return { plausible: false };
+  if (area_code.slice(1) === '11' || exchange.slice(1) === '11') return { plausible: false };
+
+  return { plausible: true };
+}
@@ -0,0 +1,97 @@
+import { CharacterWeights, LinkType, ModerationSpan } from '../types/content_moderation';
+import { URL_SHORTENERS } from '../constants/platforms';
+import { find_regex_spans } from './spans';
+
+// Trailing punctuation is left out so "see www.example.com." doesn't take the period with it
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]*[^\s.,!?;:'")\]]/gi;
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#])#[\p{L}\p{N}_]+/gu;
+// The lookbehind keeps email addresses from counting as mentions
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_.@])@[\p{L}\p{N}_]+(?:\.[\p{L}\p{N}_]+)*/gu;
+
+// An emoji together with its skin tone, variation selector and zero-width-joined parts
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})*(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})*)*/uy;
+const WIDE_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const IPV4_HOST = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+interface CountedUnit {
+  start: number;
+  end: number;
+  weight: number;
+}
+
+// Character count as the platform sees it: one per code point unless weights say otherwise
+export function count_characters(content: string, weights: CharacterWeights = {}): number {
+  return count_units(content, weights).reduce((total, unit) => total + unit.weight, 0);
+}
+
+// Offset of the first character that takes the count past the limit, or the content length if it fits
+export function find_limit_offset(content: string, limit: number, weights: CharacterWeights = {}): number {
+  let total = 0;
+  for (const unit of count_units(content, weights)) {
+    total += unit.weight;
+    if (total > limit) return unit.start;
+  }
+  return content.length;
+}
+
+export function find_link_spans(content: string): ModerationSpan[] {
+  return find_regex_spans(content, LINK_PATTERN, { category: 'link' });
+}
+
+export function find_hashtag_spans(content: string): ModerationSpan[] {
+  return find_regex_spans(content, HASHTAG_PATTERN, { category: 'hashtag' });
+}
+
+export function find_mention_spans(content: string): ModerationSpan[] {
+  return find_regex_spans(content, MENTION_PATTERN, { category: 'mention' });
+}
+
+// Every link is ANY; some are also insecure, point at a bare IP address or go through a shortener
+export function classify_link(link: string): LinkType[] {
+  const types = [LinkType.ANY];
+  const host = link
+    .replace(/^https?:\/\//i, '')
+    .split(/[/?#:]/)[0]
+    .toLowerCase()
+    .replace(/^www\./, '');
+
+  if (/^http:\/\//i.test(link)) types.push(LinkType.INSECURE);
+  if (IPV4_HOST.test(host) || link.includes('://[')) types.push(LinkType.IP_ADDRESS);
+  if (URL_SHORTENERS.includes(host)) types.push(LinkType.SHORTENER);
+
+  return types;
+}
+
+function count_units(content: string, weights: CharacterWeights): CountedUnit[] {
+  const units: CountedUnit[] = [];
+  const links = weights.url_length !== undefined ? find_link_spans(content) : [];
+  let link_index = 0;
+  let offset = 0;
+
+  while (offset < content.length) {
+    const link = links[link_index];
+    if (link && link.start === offset && weights.url_length !== undefined) {
+      units.push({ start: offset, end: link.end, weight: weights.url_length });
+      offset = link.end;
+      link_index++;
+      continue;
+    }
+
+    if (weights.emoji_weight !== undefined) {
+      EMOJI_PATTERN.lastIndex = offset;
+      const emoji = EMOJI_PATTERN.exec(content);
+      if (emoji) {
+        units.push({ start: offset, end: offset + emoji[0].length, weight: weights.emoji_weight });
+        offset += emoji[0].length;
+        continue;
+      }
+    }
+
+    const char = String.fromCodePoint(content.codePointAt(offset) as number);
+    const weight = weights.wide_character_weight !== undefined && WIDE_CHARACTER.test(char) ? weights.wide_character_weight : 1;
+    units.push({ start: offset, end: offset + char.length, weight });
+    offset += char.length;
+  }
+
+  return units;
+}
@@ -0,0 +1,57 @@
+import { ModerationSpan } from '../types/content_moderation';
+
+// Case-insensitive occurrences of a literal phrase
+export function find_phrase_spans(content: string, phrase: string, extra: Partial<ModerationSpan> = {}): ModerationSpan[] {
+  const spans: ModerationSpan[] = [];
+  if (phrase.length === 0) return spans;
+
+  const lower_content = content.toLowerCase();
+  const lower_phrase = phrase.toLowerCase();
+  let index = lower_content.indexOf(lower_phrase);
+
+  while (index !== -1) {
+    spans.push({
+      start: index,
+      end: index + phrase.length,
+      text: content.slice(index, index + phrase.length),
+      pattern: phrase,
+      ...extra
+    });
+    index = lower_content.indexOf(lower_phrase, index + phrase.length);
+  }
+
+  return spans;
+}
+
+// All matches of a regex; a global copy is used so callers' lastIndex is never touched
+export function find_regex_spans(content: string, regex: RegExp, extra: Partial<ModerationSpan> = {}): ModerationSpan[] {
+  const spans: ModerationSpan[] = [];
+  const flags = regex.flags.includes('g') ? regex.flags : `${regex.flags}g`;
+  const global_regex = new RegExp(regex.source, flags);
+
+  for (const match of content.matchAll(global_regex)) {
+    if (match[0].length === 0 || match.index === undefined) continue;
+    spans.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      pattern: regex.toString(),
+      ...extra
+    });
+  }
+
+  return spans;
+}
+
+export function sort_spans(spans: ModerationSpan[]): ModerationSpan[] {
+  return [...spans].sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+export function escape_regex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive occurrences of a word
+export function find_word_spans(content: string, word: string, extra: Partial<ModerationSpan> = {}): ModerationSpan[] {
+  return find_regex_spans(content, new RegExp(`\\b${escape_regex(word)}\\b`, 'gi'), { pattern: word, ...extra });
+}
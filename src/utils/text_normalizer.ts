@@ -0,0 +1,264 @@
+import { ModerationSpan } from '../types/content_moderation';
+import { escape_regex } from './spans';
+
+export interface NormalizedText {
+  original: string;
+  text: string;
+  // For each UTF-16 unit of text, the [start, end) range it came from in original
+  starts: number[];
+  ends: number[];
+}
+
+interface NormalizedChar {
+  char: string;
+  start: number;
+  end: number;
+}
+
+// Zero-width spaces and joiners, word joiner, BOM, soft hyphen and similar invisible characters
+const INVISIBLE_CHARACTERS = /[\u00AD\u034F\u061C\u115F\u1160\u17B4\u17B5\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u206A-\u206F\u3164\uFEFF\uFFA0]/g;
+
+// Lowercase look-alikes from other scripts that NFKC leaves alone
+const HOMOGLYPHS: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'һ': 'h', 'і': 'i', 'ї': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l',
+  'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'ѕ': 's', 'т': 't', 'у': 'y', 'х': 'x', 'ԁ': 'd',
+  'ԛ': 'q', 'ԝ': 'w', 'ү': 'y', 'ɡ': 'g',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'ω': 'w',
+  // Latin extensions
+  'ı': 'i', 'ȷ': 'j', 'ł': 'l', 'ø': 'o', 'đ': 'd', 'ħ': 'h', 'ß': 'ss'
+};
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '€': 'e'
+};
+
+// Characters used to space out single letters, as in "f u c k" or "k.i.l.l"
+const LETTER_SEPARATORS = new Set([' ', '.', '-', '_', '*', '\t']);
+const MAX_SEPARATOR_RUN = 2;
+const MIN_SPACED_LETTERS = 3;
+
+// Runs of this many identical letters or more are cut down to two ("fuuuuck" -> "fuuck")
+const MAX_REPEATED_LETTERS = 2;
+
+const LETTER = /\p{L}/u;
+const LATIN_LETTER = /\p{Script=Latin}/u;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+const phrase_pattern_cache = new Map<string, RegExp>();
+
+// Folds the ways users disguise words so detectors can match against one canonical form
+export function normalize_text(content: string): NormalizedText {
+  let chars = split_characters(content);
+
+  chars = expand(chars, char => fold_character(char));
+  chars = map_leetspeak(chars);
+  chars = collapse_spaced_letters(chars);
+  chars = collapse_repeated_letters(chars);
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (const { char, start, end } of chars) {
+    for (let i = 0; i < char.length; i++) {
+      starts.push(start);
+      ends.push(end);
+    }
+  }
+
+  return {
+    original: content,
+    text: chars.map(({ char }) => char).join(''),
+    starts,
+    ends
+  };
+}
+
+// Maps a [start, end) range of the normalized text back onto the original
+export function to_original_range(normalized: NormalizedText, start: number, end: number): { start: number; end: number } {
+  if (end <= start) {
+    const position = start < normalized.starts.length ? normalized.starts[start] : normalized.original.length;
+    return { start: position, end: position };
+  }
+  return { start: normalized.starts[start], end: normalized.ends[end - 1] };
+}
+
+// Regex matches against the normalized text, reported at their original offsets
+export function find_normalized_regex_spans(
+  normalized: NormalizedText,
+  regex: RegExp,
+  extra: Partial<ModerationSpan> = {}
+): ModerationSpan[] {
+  const spans: ModerationSpan[] = [];
+  const flags = regex.flags.includes('g') ? regex.flags : `${regex.flags}g`;
+  const global_regex = new RegExp(regex.source, flags);
+
+  for (const match of normalized.text.matchAll(global_regex)) {
+    if (match[0].length === 0 || match.index === undefined) continue;
+    const range = to_original_range(normalized, match.index, match.index + match[0].length);
+    spans.push({
+      ...range,
+      text: normalized.original.slice(range.start, range.end),
+      pattern: regex.toString(),
+      ...extra
+    });
+  }
+
+  return spans;
+}
+
+// Phrase occurrences in the normalized text, tolerating stretched letters and extra whitespace
+export function find_normalized_phrase_spans(
+  normalized: NormalizedText,
+  phrase: string,
+  extra: Partial<ModerationSpan> = {}
+): ModerationSpan[] {
+  if (phrase.trim().length === 0) return [];
+  return find_normalized_regex_spans(normalized, phrase_pattern(phrase), { pattern: phrase, ...extra });
+}
+
+function phrase_pattern(phrase: string): RegExp {
+  const cached = phrase_pattern_cache.get(phrase);
+  if (cached) return cached;
+
+  const chars = Array.from(normalize_text(phrase).text.trim());
+  let source = '';
+
+  for (let i = 0; i < chars.length;) {
+    let run = 1;
+    while (i + run < chars.length && chars[i + run] === chars[i]) run++;
+
+    if (/\s/.test(chars[i])) {
+      source += '\\s+';
+    } else if (LETTER.test(chars[i])) {
+      source += run > 1 ? `${escape_regex(chars[i])}{${Math.min(run, MAX_REPEATED_LETTERS)},}` : `${escape_regex(chars[i])}+`;
+    } else {
+      source += escape_regex(chars[i].repeat(run));
+    }
+    i += run;
+  }
+
+  const pattern = new RegExp(source, 'gu');
+  phrase_pattern_cache.set(phrase, pattern);
+  return pattern;
+}
+
+function split_characters(content: string): NormalizedChar[] {
+  const chars: NormalizedChar[] = [];
+  let offset = 0;
+  for (const char of content) {
+    chars.push({ char, start: offset, end: offset + char.length });
+    offset += char.length;
+  }
+  return chars;
+}
+
+// Replaces each character with zero or more characters that keep its original range
+function expand(chars: NormalizedChar[], transform: (char: string) => string): NormalizedChar[] {
+  const result: NormalizedChar[] = [];
+  for (const { char, start, end } of chars) {
+    for (const replacement of transform(char)) {
+      result.push({ char: replacement, start, end });
+    }
+  }
+  return result;
+}
+
+// NFKC, lowercase, diacritic and invisible character stripping, then homoglyph folding
+function fold_character(char: string): string {
+  const folded = char
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(INVISIBLE_CHARACTERS, '');
+
+  return Array.from(folded).map(c => HOMOGLYPHS[c] || c).join('');
+}
+
+// Leetspeak is only read inside Latin-script words, so prices, percentages and trailing punctuation survive
+function map_leetspeak(chars: NormalizedChar[]): NormalizedChar[] {
+  const is_letter = (index: number): boolean => index >= 0 && index < chars.length && LATIN_LETTER.test(chars[index].char);
+  const is_boundary = (index: number): boolean => index < 0 || index >= chars.length || /\s/.test(chars[index].char);
+
+  const token_has_letter: boolean[] = new Array(chars.length).fill(false);
+  for (let start = 0; start < chars.length;) {
+    let end = start;
+    while (end < chars.length && !is_boundary(end)) end++;
+    const has_letter = chars.slice(start, end).some(({ char }) => LATIN_LETTER.test(char));
+    for (let i = start; i < end; i++) token_has_letter[i] = has_letter;
+    start = end + 1;
+  }
+
+  return chars.map((unit, index) => {
+    const replacement = LEETSPEAK[unit.char];
+    if (!replacement || !token_has_letter[index]) return unit;
+
+    const is_digit = /\d/.test(unit.char);
+    const maps = is_digit
+      ? is_letter(index - 1) || is_letter(index + 1)
+      : is_letter(index + 1) && (is_letter(index - 1) || is_boundary(index - 1));
+
+    return maps ? { ...unit, char: replacement } : unit;
+  });
+}
+
+// Joins three or more single letters separated by spaces or punctuation ("f u c k" -> "fuck")
+function collapse_spaced_letters(chars: NormalizedChar[]): NormalizedChar[] {
+  const is_word = (index: number): boolean => index >= 0 && index < chars.length && WORD_CHARACTER.test(chars[index].char);
+  const is_single_letter = (index: number): boolean =>
+    LETTER.test(chars[index].char) && !is_word(index - 1) && !is_word(index + 1);
+
+  const result: NormalizedChar[] = [];
+  let i = 0;
+
+  while (i < chars.length) {
+    if (!is_single_letter(i)) {
+      result.push(chars[i]);
+      i++;
+      continue;
+    }
+
+    const letters = [i];
+    let last = i;
+    for (;;) {
+      let next = last + 1;
+      while (next < chars.length && next - last - 1 < MAX_SEPARATOR_RUN && LETTER_SEPARATORS.has(chars[next].char)) next++;
+      if (next === last + 1 || next >= chars.length || !is_single_letter(next)) break;
+      letters.push(next);
+      last = next;
+    }
+
+    if (letters.length >= MIN_SPACED_LETTERS) {
+      result.push(...letters.map(index => chars[index]));
+      i = last + 1;
+    } else {
+      result.push(chars[i]);
+      i++;
+    }
+  }
+
+  return result;
+}
+
+function collapse_repeated_letters(chars: NormalizedChar[]): NormalizedChar[] {
+  const result: NormalizedChar[] = [];
+
+  for (let i = 0; i < chars.length;) {
+    let run = 1;
+    while (i + run < chars.length && chars[i + run].char === chars[i].char) run++;
+
+    if (run > MAX_REPEATED_LETTERS && LETTER.test(chars[i].char)) {
+      result.push(...chars.slice(i, i + MAX_REPEATED_LETTERS - 1));
+      // The last kept letter stands for the rest of the run
+      result.push({ ...chars[i + MAX_REPEATED_LETTERS - 1], end: chars[i + run - 1].end });
+    } else {
+      result.push(...chars.slice(i, i + run));
+    }
+    i += run;
+  }
+
+  return result;
+}
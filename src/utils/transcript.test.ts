@@ -0,0 +1,90 @@
+import { TranscriptFormat } from '../types/content_moderation';
+import { find_cue, join_cues, parse_transcript } from './transcript';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,500',
+  '{\\an8}Hello there',
+  '',
+  '2',
+  '00:00:04,000 --> 00:00:06,000',
+  'Second line',
+  'wraps here',
+  ''
+].join('\n');
+
+const WEBVTT = [
+  'WEBVTT',
+  '',
+  'NOTE written by hand',
+  '',
+  '01:02.500 --> 01:05.000 align:start',
+  '<v Roger>Welcome back</v>',
+  ''
+].join('\r\n');
+
+describe('parse_transcript', () => {
+  it('reads SRT cues with their timing, text and offset into the content', () => {
+    const transcript = parse_transcript(SRT);
+
+    expect(transcript?.format).toBe(TranscriptFormat.SRT);
+    expect(transcript?.cues.map(({ index, start_ms, end_ms }) => ({ index, start_ms, end_ms }))).toEqual([
+      { index: 0, start_ms: 1000, end_ms: 3500 },
+      { index: 1, start_ms: 4000, end_ms: 6000 }
+    ]);
+    expect(transcript?.cues[1].text).toBe('Second line\nwraps here');
+    expect(SRT.slice(transcript?.cues[1].offset)).toMatch(/^Second line/);
+  });
+
+  it('blanks markup without moving the text', () => {
+    const cue = parse_transcript(SRT)?.cues[0];
+
+    expect(cue?.text).toBe('      Hello there');
+    expect(SRT.slice(cue?.offset, (cue?.offset ?? 0) + (cue?.text.length ?? 0))).toBe('{\\an8}Hello there');
+  });
+
+  it('skips WebVTT header and NOTE blocks and accepts minute timestamps and CRLF line ends', () => {
+    const transcript = parse_transcript(WEBVTT);
+
+    expect(transcript?.format).toBe(TranscriptFormat.WEBVTT);
+    expect(transcript?.cues).toHaveLength(1);
+    expect(transcript?.cues[0]).toMatchObject({ start_ms: 62500, end_ms: 65000 });
+    expect(transcript?.cues[0].text.trim()).toBe('Welcome back');
+  });
+
+  it('runs plain transcript cues until the next timestamp and joins untimed lines to the cue above', () => {
+    const content = '[00:05] First speaker\ncarries on\n(1:02:03.5) - Second speaker\n00:10\n';
+    const transcript = parse_transcript(content);
+
+    expect(transcript?.format).toBe(TranscriptFormat.PLAIN);
+    expect(transcript?.cues.map(({ index, start_ms, end_ms, text }) => ({ index, start_ms, end_ms, text }))).toEqual([
+      { index: 0, start_ms: 5000, end_ms: 3723500, text: 'First speaker\ncarries on' },
+      { index: 1, start_ms: 3723500, end_ms: 10000, text: 'Second speaker' }
+    ]);
+  });
+
+  it('returns undefined for content that is not a transcript', () => {
+    expect(parse_transcript('Just a post about 10:30 meetings')).toBeUndefined();
+    expect(parse_transcript('WEBVTT\n\nNOTE nothing timed')).toBeUndefined();
+    expect(parse_transcript('   ')).toBeUndefined();
+  });
+});
+
+describe('join_cues and find_cue', () => {
+  const cues = parse_transcript(SRT)?.cues ?? [];
+  const joined = join_cues(cues);
+
+  it('joins cues with a space and turns line breaks into spaces, keeping every cue the same length', () => {
+    expect(joined.text).toBe('      Hello there Second line wraps here');
+    expect(joined.starts).toEqual([0, cues[0].text.length + 1]);
+  });
+
+  it('finds the cue an offset falls in, giving separators to the cue before them', () => {
+    const second_start = joined.starts[1];
+
+    expect(find_cue(joined.starts, 0)).toBe(0);
+    expect(find_cue(joined.starts, second_start - 1)).toBe(0);
+    expect(find_cue(joined.starts, second_start)).toBe(1);
+    expect(find_cue(joined.starts, joined.text.length - 1)).toBe(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { TranscriptFormat } from '../types/content_moderation';
+
+export interface TranscriptCue {
+  index: number;
+  start_ms: number;
+  end_ms?: number; // Plain transcripts only mark where a line starts, so their last cue has no end
+  text: string; // The cue's text as it appears in the content, with markup blanked out
+  offset: number; // Where the text starts in the content
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  cues: TranscriptCue[];
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const TIMESTAMP = '(?:\\d+:)?\\d{1,2}:\\d{2}[.,]\\d{1,3}';
+
+// "00:01:02,500 --> 00:01:05,000" in SRT, "01:02.500 --> 01:05.000 align:start" in WebVTT
+const TIMING_PATTERN = new RegExp(`^\\s*(${TIMESTAMP})\\s*-->\\s*(${TIMESTAMP})`);
+
+// "[00:01:02] text", "(1:02) text", "01:02.5 - text" and similar, or a timestamp on its own line
+const PLAIN_CUE_PATTERN = /^\s*[[(]?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)[\])]?(?:\s*[-–]\s*|\s+|$)/;
+
+// WebVTT voice, class and style tags, and SRT position codes such as {\an8}
+const MARKUP_PATTERN = /<[^>\n]*>|\{\\[^}\n]*\}/g;
+
+// Recognizes WebVTT, SRT and plain timestamped transcripts; anything else is not a transcript
+export function parse_transcript(content: string): ParsedTranscript | undefined {
+  const lines = split_lines(content);
+  const first_line = lines.find(line => line.text.trim().length > 0);
+  if (!first_line) return undefined;
+
+  let parsed: ParsedTranscript | undefined;
+  if (/^\uFEFF?WEBVTT(?:[ \t]|$)/.test(first_line.text)) {
+    parsed = { format: TranscriptFormat.WEBVTT, cues: parse_timed_blocks(content, lines) };
+  } else if (lines.some(line => TIMING_PATTERN.test(line.text))) {
+    parsed = { format: TranscriptFormat.SRT, cues: parse_timed_blocks(content, lines) };
+  } else if (PLAIN_CUE_PATTERN.test(first_line.text)) {
+    parsed = { format: TranscriptFormat.PLAIN, cues: parse_plain_lines(content, lines) };
+  }
+
+  return parsed && parsed.cues.length > 0 ? parsed : undefined;
+}
+
+// SRT and WebVTT cues are blocks separated by blank lines: an optional id, a timing line, then text.
+// Blocks without a timing line (the WebVTT header, NOTE, STYLE and REGION blocks) are skipped.
+function parse_timed_blocks(content: string, lines: Line[]): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let block: Line[] = [];
+
+  const finish_block = (): void => {
+    const timing_index = block.findIndex(line => TIMING_PATTERN.test(line.text));
+    const text_lines = block.slice(timing_index + 1);
+    if (timing_index !== -1 && text_lines.length > 0) {
+      const [, start, end] = TIMING_PATTERN.exec(block[timing_index].text) as RegExpExecArray;
+      cues.push(make_cue(content, cues.length, parse_timestamp(start), parse_timestamp(end), text_lines[0].start, text_lines[text_lines.length - 1].end));
+    }
+    block = [];
+  };
+
+  for (const line of lines) {
+    if (line.text.trim().length === 0) {
+      finish_block();
+    } else {
+      block.push(line);
+    }
+  }
+  finish_block();
+
+  return cues;
+}
+
+// Each timestamped line starts a cue that runs until the next one; untimed lines continue the cue above
+function parse_plain_lines(content: string, lines: Line[]): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+
+  for (const line of lines) {
+    const match = PLAIN_CUE_PATTERN.exec(line.text);
+    if (match) {
+      const start_ms = parse_timestamp(match[1]);
+      const previous = cues[cues.length - 1];
+      if (previous) previous.end_ms = start_ms;
+      cues.push(make_cue(content, cues.length, start_ms, undefined, line.start + match[0].length, line.end));
+    } else if (cues.length > 0 && line.text.trim().length > 0) {
+      const previous = cues[cues.length - 1];
+      cues[cues.length - 1] = make_cue(content, previous.index, previous.start_ms, undefined, previous.offset, line.end);
+    }
+  }
+
+  // Lines with a timestamp and nothing else carry no text to moderate
+  return cues
+    .filter(cue => cue.text.trim().length > 0)
+    .map((cue, index) => ({ ...cue, index }));
+}
+
+// All the cues' text as one string, so a phrase or number that runs from one cue into the next is read whole.
+// Cues are separated by a space and line breaks become spaces; every character keeps its place, so an offset
+// into the joined text maps straight back to a cue.
+export function join_cues(cues: TranscriptCue[]): { text: string; starts: number[] } {
+  const starts: number[] = [];
+  let text = '';
+
+  for (const cue of cues) {
+    if (text.length > 0) text += ' ';
+    starts.push(text.length);
+    text += cue.text.replace(/[\r\n]/g, ' ');
+  }
+
+  return { text, starts };
+}
+
+// The cue an offset into the joined text falls in; separators belong to the cue before them
+export function find_cue(starts: number[], position: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+// Markup is blanked rather than removed, so offsets into the cue text still point into the content
+function make_cue(content: string, index: number, start_ms: number, end_ms: number | undefined, start: number, end: number): TranscriptCue {
+  const text = content.slice(start, end).replace(MARKUP_PATTERN, markup => ' '.repeat(markup.length));
+  return { index, start_ms, end_ms, text, offset: start };
+}
+
+// "1:02:03.5", "01:02:03,500" and "02:03" are all accepted
+function parse_timestamp(timestamp: string): number {
+  const [clock, fraction = ''] = timestamp.split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds * 1000 + (fraction ? parseInt(fraction.padEnd(3, '0'), 10) : 0);
+}
+
+function split_lines(content: string): Line[] {
+  const lines: Line[] = [];
+  const pattern = /\r\n|\r|\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    lines.push({ text: content.slice(start, match.index), start, end: match.index });
+    start = match.index + match[0].length;
+  }
+  lines.push({ text: content.slice(start), start, end: content.length });
+
+  return lines;
+}